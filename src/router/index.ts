@@ -8,6 +8,26 @@ const router = createRouter({
       name: 'chat',
       component: () => import('../views/ChatView.vue')
     },
+    {
+      path: '/chat/:sessionId',
+      name: 'session',
+      component: () => import('../views/ChatView.vue')
+    },
+    {
+      path: '/leaderboard',
+      name: 'leaderboard',
+      component: () => import('../views/LeaderboardView.vue')
+    },
+    {
+      path: '/batch',
+      name: 'batch',
+      component: () => import('../views/BatchView.vue')
+    },
+    {
+      path: '/report',
+      name: 'report',
+      component: () => import('../views/ReportView.vue')
+    },
     {
       path: '/settings',
       name: 'settings',
@@ -0,0 +1,113 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { idbGetAll, idbPut, idbDelete, idbClear } from '../utils/db'
+import { computeElo } from '../utils/elo'
+import { createMessageTree } from '../utils/messageTree'
+import type { ArenaVote, ArenaVerdict, ComparePanel, ModelSelection } from '../types/config'
+
+const ARENA_LABELS = ['A', 'B']
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 9)
+}
+
+// Fisher-Yates 洗牌
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    const tmp = result[i]!
+    result[i] = result[j]!
+    result[j] = tmp
+  }
+  return result
+}
+
+// 竞技场 store - 盲测对战、投票记录和排行榜
+export const useArenaStore = defineStore('arena', () => {
+  const votes = ref<ArenaVote[]>([])
+  let loadPromise: Promise<void> | null = null
+
+  function loadVotes(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = idbGetAll<ArenaVote>('arenaVotes')
+        .then(list => {
+          votes.value = list.sort((a, b) => a.createdAt - b.createdAt)
+        })
+        .catch(e => {
+          console.error('Failed to load arena votes:', e)
+        })
+    }
+    return loadPromise
+  }
+
+  // 从候选模型中随机抽取两个，生成匿名面板
+  function createBattlePanels(candidates: ModelSelection[]): ComparePanel[] {
+    const battleId = generateId()
+    const now = Date.now()
+    return shuffle(candidates)
+      .slice(0, ARENA_LABELS.length)
+      .map((selection, i) => ({
+        id: `${now}-${i}`,
+        selection,
+        arena: { battleId, label: ARENA_LABELS[i]! },
+        tree: createMessageTree(),
+        streaming: false
+      }))
+  }
+
+  function getVote(battleId: string): ArenaVote | undefined {
+    return votes.value.find(v => v.battleId === battleId)
+  }
+
+  async function recordVote(battleId: string, modelA: string, modelB: string, verdict: ArenaVerdict) {
+    if (getVote(battleId)) return
+    const vote: ArenaVote = {
+      id: generateId(),
+      battleId,
+      modelA,
+      modelB,
+      verdict,
+      createdAt: Date.now()
+    }
+    votes.value.push(vote)
+    try {
+      await idbPut('arenaVotes', vote)
+    } catch (e) {
+      console.error('Failed to save arena vote:', e)
+    }
+  }
+
+  async function deleteVote(id: string) {
+    const index = votes.value.findIndex(v => v.id === id)
+    if (index === -1) return
+    votes.value.splice(index, 1)
+    try {
+      await idbDelete('arenaVotes', id)
+    } catch (e) {
+      console.error('Failed to delete arena vote:', e)
+    }
+  }
+
+  async function clearVotes() {
+    votes.value = []
+    try {
+      await idbClear('arenaVotes')
+    } catch (e) {
+      console.error('Failed to clear arena votes:', e)
+    }
+  }
+
+  const leaderboard = computed(() => computeElo(votes.value))
+
+  return {
+    votes,
+    leaderboard,
+    loadVotes,
+    createBattlePanels,
+    getVote,
+    recordVote,
+    deleteVote,
+    clearVotes
+  }
+})
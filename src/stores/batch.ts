@@ -0,0 +1,318 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import { useConfigStore } from './config'
+import { useUsageStore } from './usage'
+import { completeChat } from '../utils/api'
+import { calcCost } from '../utils/cost'
+import { runPool } from '../utils/concurrency'
+import { renderTemplate } from '../utils/template'
+import { matchesExpected } from '../utils/dataset'
+import { idbGetAll, idbPut, idbDelete } from '../utils/db'
+import type { BatchRun, BatchCell, BatchModel, DatasetItem } from '../types/config'
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 9)
+}
+
+export function cellKey(itemId: string, modelIndex: number): string {
+  return `${itemId}:${modelIndex}`
+}
+
+// 代入变量后实际发送的提示词
+export function renderPrompt(item: DatasetItem): string {
+  return renderTemplate(item.prompt, item.variables)
+}
+
+export interface BatchModelSummary {
+  done: number
+  errors: number
+  avgDurationMs?: number
+  cost: number
+  matched?: number  // 命中期望答案的条数（数据集有期望答案时）
+}
+
+// 批量评测 store - 数据集 × 模型的批量运行，结果逐条保存到 IndexedDB
+export const useBatchStore = defineStore('batch', () => {
+  const configStore = useConfigStore()
+  const usageStore = useUsageStore()
+
+  const runs = ref<BatchRun[]>([])
+  let loadPromise: Promise<void> | null = null
+
+  // 每个运行中批次的调度标识和取消控制器；暂停后再继续会换成新的调度
+  const activePools = new Map<string, object>()
+  const controllers = new Map<string, AbortController>()
+  // 因锁定而暂停的任务，解锁后自动继续
+  const lockPausedRuns = new Set<string>()
+
+  const sortedRuns = computed(() =>
+    [...runs.value].sort((a, b) => b.createdAt - a.createdAt)
+  )
+
+  function loadRuns(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = idbGetAll<BatchRun>('batchRuns')
+        .then(list => {
+          // 上次关闭页面时未完成的请求重新排队，运行中的批次视为暂停
+          for (const run of list) {
+            for (const cell of Object.values(run.cells)) {
+              if (cell.status === 'running') cell.status = 'pending'
+            }
+            if (run.status === 'running') run.status = 'paused'
+          }
+          runs.value = list
+        })
+        .catch(e => {
+          console.error('Failed to load batch runs:', e)
+        })
+    }
+    return loadPromise
+  }
+
+  async function persistRun(run: BatchRun) {
+    try {
+      await idbPut('batchRuns', JSON.parse(JSON.stringify(run)) as BatchRun)
+    } catch (e) {
+      console.error('Failed to save batch run:', e)
+    }
+  }
+
+  function createRun(name: string, items: DatasetItem[], models: BatchModel[], concurrency: number): BatchRun {
+    const cells: Record<string, BatchCell> = {}
+    for (const item of items) {
+      models.forEach((_, i) => {
+        cells[cellKey(item.id, i)] = { status: 'pending' }
+      })
+    }
+    const now = Date.now()
+    runs.value.push({
+      id: generateId(),
+      name: name.trim() || `批量评测 ${new Date(now).toLocaleString()}`,
+      items,
+      models,
+      concurrency: Math.max(1, concurrency),
+      cells,
+      status: 'idle',
+      createdAt: now,
+      updatedAt: now
+    })
+    const run = runs.value[runs.value.length - 1]!
+    persistRun(run)
+    return run
+  }
+
+  async function runCell(run: BatchRun, item: DatasetItem, modelIndex: number) {
+    const cell = run.cells[cellKey(item.id, modelIndex)]
+    // 锁定后 Key 已从内存清除，保持待运行
+    if (!cell || cell.status !== 'pending' || configStore.locked) return
+
+    const model = run.models[modelIndex]!
+    const target = configStore.resolveTarget(model.selection)
+    const info = configStore.getModelInfo(model.selection)
+    if (!target || !info) {
+      Object.assign(cell, { status: 'error', error: '模型不存在或已被删除' })
+      return
+    }
+
+    cell.status = 'running'
+    cell.error = undefined
+    const signal = controllers.get(run.id)?.signal
+    // 被中止（删除任务）时 completeChat 会返回部分内容，不记录结果也不写回已删除的任务
+    const cancelled = () => {
+      if (!signal?.aborted && runs.value.some(r => r.id === run.id)) return false
+      cell.status = 'pending'
+      return true
+    }
+    try {
+      const result = await completeChat(
+        target,
+        [{ role: 'user', content: renderPrompt(item) }],
+        signal
+      )
+      if (cancelled()) return
+      const metrics = result.metrics
+      if (metrics) {
+        metrics.cost = calcCost(metrics.usage, configStore.getServingModel(model.selection, metrics.keyId) ?? info.model)
+        usageStore.recordUsage(metrics.keyId ?? info.apiKey.id, metrics.usage, metrics.cost)
+      }
+      Object.assign(cell, { status: 'done', content: result.content, metrics })
+    } catch (error) {
+      if (cancelled()) return
+      Object.assign(cell, {
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+    run.updatedAt = Date.now()
+    persistRun(run)
+  }
+
+  // 开始或继续：只处理待运行的单元格
+  async function startRun(id: string) {
+    const run = runs.value.find(r => r.id === id)
+    if (!run || run.status === 'running') return
+
+    const pending: [DatasetItem, number][] = []
+    for (const item of run.items) {
+      run.models.forEach((_, i) => {
+        if (run.cells[cellKey(item.id, i)]?.status === 'pending') pending.push([item, i])
+      })
+    }
+
+    const token = {}
+    activePools.set(run.id, token)
+    if (!controllers.has(run.id)) controllers.set(run.id, new AbortController())
+    run.status = 'running'
+    persistRun(run)
+
+    await runPool(
+      pending,
+      run.concurrency,
+      ([item, i]) => runCell(run, item, i),
+      () => run.status === 'running' && activePools.get(run.id) === token
+    )
+
+    // 已被暂停后重新开始的调度接管时，不修改状态
+    if (activePools.get(run.id) !== token) return
+    activePools.delete(run.id)
+    controllers.delete(run.id)
+    const finished = Object.values(run.cells).every(c => c.status === 'done' || c.status === 'error')
+    run.status = finished ? 'done' : 'paused'
+    run.updatedAt = Date.now()
+    persistRun(run)
+  }
+
+  // 暂停：不再发起新请求，已发出的请求会继续完成
+  function pauseRun(id: string) {
+    const run = runs.value.find(r => r.id === id)
+    if (run?.status === 'running') {
+      run.status = 'paused'
+      persistRun(run)
+    }
+  }
+
+  // 锁定时暂停运行中的任务（已发出的请求会继续完成），解锁后继续
+  watch(() => configStore.locked, locked => {
+    if (locked) {
+      for (const run of runs.value) {
+        if (run.status !== 'running') continue
+        lockPausedRuns.add(run.id)
+        pauseRun(run.id)
+      }
+      return
+    }
+    for (const id of lockPausedRuns) startRun(id)
+    lockPausedRuns.clear()
+  })
+
+  // 失败的单元格重新排队
+  function retryFailed(id: string) {
+    const run = runs.value.find(r => r.id === id)
+    if (!run) return
+    for (const cell of Object.values(run.cells)) {
+      if (cell.status === 'error') {
+        cell.status = 'pending'
+        cell.error = undefined
+      }
+    }
+    if (run.status === 'done') run.status = 'paused'
+    return startRun(id)
+  }
+
+  async function deleteRun(id: string) {
+    const index = runs.value.findIndex(r => r.id === id)
+    if (index === -1) return
+    controllers.get(id)?.abort()
+    controllers.delete(id)
+    activePools.delete(id)
+    runs.value[index]!.status = 'paused'
+    runs.value.splice(index, 1)
+    try {
+      await idbDelete('batchRuns', id)
+    } catch (e) {
+      console.error('Failed to delete batch run:', e)
+    }
+  }
+
+  function getProgress(run: BatchRun) {
+    const cells = Object.values(run.cells)
+    return {
+      total: cells.length,
+      finished: cells.filter(c => c.status === 'done' || c.status === 'error').length
+    }
+  }
+
+  function getModelSummary(run: BatchRun, modelIndex: number): BatchModelSummary {
+    let done = 0
+    let errors = 0
+    let duration = 0
+    let cost = 0
+    let matched = 0
+    let hasExpected = false
+    for (const item of run.items) {
+      const cell = run.cells[cellKey(item.id, modelIndex)]
+      if (cell?.status === 'error') errors++
+      if (cell?.status !== 'done') continue
+      done++
+      duration += cell.metrics?.durationMs || 0
+      cost += cell.metrics?.cost || 0
+      if (item.expected) {
+        hasExpected = true
+        if (matchesExpected(cell.content || '', item.expected)) matched++
+      }
+    }
+    return {
+      done,
+      errors,
+      avgDurationMs: done > 0 ? duration / done : undefined,
+      cost,
+      matched: hasExpected ? matched : undefined
+    }
+  }
+
+  // 导出用的扁平结果行：每个条目 × 模型一行
+  function buildResultRows(run: BatchRun): Record<string, unknown>[] {
+    const rows: Record<string, unknown>[] = []
+    for (const item of run.items) {
+      run.models.forEach((model, i) => {
+        const cell = run.cells[cellKey(item.id, i)]
+        const row: Record<string, unknown> = { prompt: renderPrompt(item) }
+        for (const [k, v] of Object.entries(item.variables || {})) {
+          row[`var_${k}`] = v
+        }
+        Object.assign(row, {
+          expected: item.expected,
+          model: model.label,
+          status: cell?.status,
+          content: cell?.content,
+          error: cell?.error,
+          matched: item.expected && cell?.status === 'done'
+            ? matchesExpected(cell.content || '', item.expected)
+            : undefined,
+          firstTokenMs: cell?.metrics?.firstTokenMs,
+          durationMs: cell?.metrics?.durationMs,
+          tokensPerSecond: cell?.metrics?.tokensPerSecond,
+          inputTokens: cell?.metrics?.usage?.inputTokens,
+          outputTokens: cell?.metrics?.usage?.outputTokens,
+          cost: cell?.metrics?.cost
+        })
+        rows.push(row)
+      })
+    }
+    return rows
+  }
+
+  return {
+    runs,
+    sortedRuns,
+    loadRuns,
+    createRun,
+    startRun,
+    pauseRun,
+    retryFailed,
+    deleteRun,
+    getProgress,
+    getModelSummary,
+    buildResultRows
+  }
+})
@@ -1,18 +1,24 @@
 import { defineStore } from 'pinia'
 import { ref } from 'vue'
-import type { Message, ModelSelection, ComparePanel, TempApiConfig } from '../types/config'
+import { createMessageTree, appendMessage, addChild, lastActiveMessage, branchAfter, switchBranch, selectBranch } from '../utils/messageTree'
+import type { Message, ModelSelection, ComparePanel, TempApiConfig, GenerationParams, ResponseMetrics, JudgeResult, ToolCall, RequestAttempt } from '../types/config'
 
 // 聊天状态 store - 用于保持对话状态
 export const useChatStore = defineStore('chat', () => {
   // 面板状态（默认1个面板）
   const comparePanels = ref<ComparePanel[]>([
-    { id: '1', selection: null, messages: [], streaming: false }
+    { id: '1', selection: null, tree: createMessageTree(), streaming: false }
   ])
 
+  // 替换全部面板（切换会话时使用）
+  function setComparePanels(panels: ComparePanel[]) {
+    comparePanels.value = panels
+  }
+
   // 面板操作
   function addComparePanel() {
     const id = String(Date.now())
-    comparePanels.value.push({ id, selection: null, messages: [], streaming: false })
+    comparePanels.value.push({ id, selection: null, tree: createMessageTree(), streaming: false })
   }
 
   function removeComparePanel(id: string) {
@@ -30,20 +36,133 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
+  // 设置面板生成参数
+  function setComparePanelParams(panelId: string, params: GenerationParams) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    if (panel) {
+      panel.params = params
+    }
+  }
+
+  // 设置面板的系统提示词
+  function setComparePanelSystemPrompt(panelId: string, systemPrompt: string) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    if (panel) {
+      panel.systemPrompt = systemPrompt.trim() ? systemPrompt : undefined
+    }
+  }
+
+  // 设置面板每次请求的采样次数
+  function setComparePanelSamples(panelId: string, samples: number) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    if (panel) {
+      panel.samples = samples > 1 ? samples : undefined
+    }
+  }
+
+  function setComparePanelTools(panelId: string, tools: string[]) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    if (panel) {
+      panel.tools = tools
+    }
+  }
+
+  // 在面板当前分支末尾追加消息
   function addComparePanelMessage(panelId: string, message: Message) {
     const panel = comparePanels.value.find(p => p.id === panelId)
     if (panel) {
-      panel.messages.push(message)
+      appendMessage(panel.tree, message)
+    }
+  }
+
+  // 在指定消息下添加回复（多次采样时多个回复同时输出），返回新消息的节点 ID
+  function addComparePanelReply(panelId: string, parentId: string, message: Message, activate: boolean): string | undefined {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    return panel ? addChild(panel.tree, parentId, message, activate).id : undefined
+  }
+
+  // 更新指定消息
+  function updateComparePanelMessage(panelId: string, nodeId: string, patch: Partial<Message>) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    const msg = panel?.tree.nodes[nodeId]?.message
+    if (msg) {
+      Object.assign(msg, patch)
     }
   }
 
   function updateComparePanelLastMessage(panelId: string, content: string) {
     const panel = comparePanels.value.find(p => p.id === panelId)
-    if (panel && panel.messages.length > 0) {
-      const lastMsg = panel.messages[panel.messages.length - 1]
-      if (lastMsg && lastMsg.role === 'assistant') {
-        lastMsg.content = content
-      }
+    const lastMsg = panel && lastActiveMessage(panel.tree)
+    if (lastMsg && lastMsg.role === 'assistant') {
+      lastMsg.content = content
+    }
+  }
+
+  function updateComparePanelLastMessageReasoning(panelId: string, reasoning: string) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    const lastMsg = panel && lastActiveMessage(panel.tree)
+    if (lastMsg && lastMsg.role === 'assistant') {
+      lastMsg.reasoning = reasoning
+    }
+  }
+
+  // 记录最后一条助手消息的失败请求尝试
+  function addComparePanelLastMessageAttempt(panelId: string, attempt: RequestAttempt) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    const lastMsg = panel && lastActiveMessage(panel.tree)
+    if (lastMsg && lastMsg.role === 'assistant') {
+      lastMsg.attempts = [...(lastMsg.attempts || []), attempt]
+    }
+  }
+
+  // 记录最后一条助手消息的响应指标
+  function setComparePanelLastMessageMetrics(panelId: string, metrics: ResponseMetrics) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    const lastMsg = panel && lastActiveMessage(panel.tree)
+    if (lastMsg && lastMsg.role === 'assistant') {
+      lastMsg.metrics = metrics
+    }
+  }
+
+  // 记录最后一条助手消息请求的工具调用
+  function setComparePanelLastMessageToolCalls(panelId: string, toolCalls: ToolCall[]) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    const lastMsg = panel && lastActiveMessage(panel.tree)
+    if (lastMsg && lastMsg.role === 'assistant') {
+      lastMsg.toolCalls = toolCalls
+    }
+  }
+
+  // 记录助手消息的评审结果
+  function setComparePanelMessageJudgement(panelId: string, nodeId: string, judgement: JudgeResult) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    const msg = panel?.tree.nodes[nodeId]?.message
+    if (msg && msg.role === 'assistant') {
+      msg.judgement = judgement
+    }
+  }
+
+  // 当前分支在指定消息处结束（null 表示从头开始），之后发送的消息成为新分支
+  function branchComparePanel(panelId: string, nodeId: string | null) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    if (panel) {
+      branchAfter(panel.tree, nodeId)
+    }
+  }
+
+  // 切换到指定分支
+  function selectComparePanelBranch(panelId: string, nodeId: string) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    if (panel && !panel.streaming) {
+      selectBranch(panel.tree, nodeId)
+    }
+  }
+
+  // 切换到相邻的同级分支
+  function switchComparePanelBranch(panelId: string, nodeId: string, offset: number) {
+    const panel = comparePanels.value.find(p => p.id === panelId)
+    if (panel && !panel.streaming) {
+      switchBranch(panel.tree, nodeId, offset)
     }
   }
 
@@ -57,13 +176,13 @@ export const useChatStore = defineStore('chat', () => {
   function clearComparePanel(panelId: string) {
     const panel = comparePanels.value.find(p => p.id === panelId)
     if (panel) {
-      panel.messages = []
+      panel.tree = createMessageTree()
     }
   }
 
   function clearAllComparePanels() {
     comparePanels.value.forEach(panel => {
-      panel.messages = []
+      panel.tree = createMessageTree()
     })
   }
 
@@ -86,13 +205,28 @@ export const useChatStore = defineStore('chat', () => {
 
   return {
     comparePanels,
+    setComparePanels,
     addComparePanel,
     removeComparePanel,
     setComparePanelSelection,
+    setComparePanelParams,
+    setComparePanelTools,
+    setComparePanelSystemPrompt,
+    setComparePanelSamples,
     setComparePanelTempApi,
     clearComparePanelTempApi,
     addComparePanelMessage,
+    addComparePanelReply,
+    updateComparePanelMessage,
     updateComparePanelLastMessage,
+    updateComparePanelLastMessageReasoning,
+    addComparePanelLastMessageAttempt,
+    setComparePanelLastMessageMetrics,
+    setComparePanelLastMessageToolCalls,
+    setComparePanelMessageJudgement,
+    branchComparePanel,
+    selectComparePanelBranch,
+    switchComparePanelBranch,
     setComparePanelStreaming,
     clearComparePanel,
     clearAllComparePanels
@@ -1,8 +1,19 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Provider, ApiKey, Model, AppConfig, SearchService } from '../types/config'
+import type { Provider, ApiKey, Model, ModelCapabilities, AppConfig, SearchService, ModelSelection, CustomTool, CustomProtocol, PromptPreset, ContextSettings, ApiProtocol, EncryptedPayload } from '../types/config'
+import { mergeParams, type ChatTarget } from '../utils/api'
+import { DEFAULT_MAX_TOOL_ROUNDS } from '../utils/agent'
+import { DEFAULT_MAX_RETRIES } from '../utils/retry'
+import { DEFAULT_CONTEXT_SETTINGS } from '../utils/context'
+import { customProtocolId, toCustomProtocol } from '../utils/customProtocol'
+import { CONFIG_VERSION, migrateConfig, validateConfig, parseConfig } from '../utils/configSchema'
+import { diffConfig, mergeConfig, type ConfigChange } from '../utils/configMerge'
+import { createVaultKey, openVaultKey, encryptJson, decryptJson, stripSecrets, applySecrets, type VaultKey, type ConfigSecrets } from '../utils/vault'
 
 const STORAGE_KEY = 'llms_compare_config'
+const VAULT_STORAGE_KEY = 'llms_compare_vault'
+
+const DEFAULT_LOCK_AFTER_MINUTES = 15
 
 function generateId(): string {
   return Math.random().toString(36).substring(2, 9)
@@ -12,59 +23,313 @@ export const useConfigStore = defineStore('config', () => {
   const providers = ref<Provider[]>([])
   const searchServices = ref<SearchService[]>([])
   const theme = ref<'light' | 'dark'>('dark')
+  const maxToolRounds = ref(DEFAULT_MAX_TOOL_ROUNDS)
+  const maxRetries = ref(DEFAULT_MAX_RETRIES)
+  const fetchProxy = ref('')
+  const customTools = ref<CustomTool[]>([])
+  const customProtocols = ref<CustomProtocol[]>([])
+  const prompts = ref<PromptPreset[]>([])
+  const context = ref<ContextSettings>({ ...DEFAULT_CONTEXT_SETTINGS })
+  const lockAfterMinutes = ref(DEFAULT_LOCK_AFTER_MINUTES)
+
+  // 主密码：启用后 API Key 等敏感字段加密保存在 VAULT_STORAGE_KEY，锁定时内存中不保留明文
+  const encrypted = ref(false)
+  const locked = ref(false)
+  let vaultKey: VaultKey | null = null
+  let pendingVault: Promise<void> = Promise.resolve()
+
+  function applyConfig(config: AppConfig) {
+    providers.value = config.providers || []
+    searchServices.value = config.searchServices || []
+    theme.value = config.theme || 'dark'
+    maxToolRounds.value = config.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS
+    maxRetries.value = config.maxRetries ?? DEFAULT_MAX_RETRIES
+    lockAfterMinutes.value = config.lockAfterMinutes ?? DEFAULT_LOCK_AFTER_MINUTES
+    fetchProxy.value = config.fetchProxy || ''
+    customTools.value = config.customTools || []
+    customProtocols.value = config.customProtocols || []
+    prompts.value = config.prompts || []
+    context.value = { ...DEFAULT_CONTEXT_SETTINGS, ...config.context }
+  }
+
+  function toConfig(): AppConfig {
+    return {
+      version: CONFIG_VERSION,
+      providers: providers.value,
+      searchServices: searchServices.value,
+      theme: theme.value,
+      maxToolRounds: maxToolRounds.value,
+      maxRetries: maxRetries.value,
+      lockAfterMinutes: lockAfterMinutes.value,
+      fetchProxy: fetchProxy.value,
+      customTools: customTools.value,
+      customProtocols: customProtocols.value,
+      prompts: prompts.value,
+      context: context.value
+    }
+  }
 
   // 从 localStorage 加载配置
   function loadConfig() {
     const saved = localStorage.getItem(STORAGE_KEY)
     if (saved) {
       try {
-        const config: AppConfig = JSON.parse(saved)
-        providers.value = config.providers || []
-        searchServices.value = config.searchServices || []
-        theme.value = config.theme || 'dark'
+        const config = migrateConfig(JSON.parse(saved))
+        const errors = validateConfig(config)
+        if (errors.length) console.error('Invalid config:', errors)
+        applyConfig(config as unknown as AppConfig)
       } catch (e) {
         console.error('Failed to load config:', e)
       }
     }
+    // 已设置主密码时启动后处于锁定状态，需输入密码解锁
+    encrypted.value = localStorage.getItem(VAULT_STORAGE_KEY) !== null
+    locked.value = encrypted.value
   }
 
   // 保存配置到 localStorage
   function saveConfig() {
-    const config: AppConfig = {
-      providers: providers.value,
-      searchServices: searchServices.value,
-      theme: theme.value
+    const config = toConfig()
+    if (!encrypted.value) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
+      return
     }
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
+    const { config: stripped, secrets } = stripSecrets(config)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stripped))
+    // 锁定时内存中没有敏感字段，保留已加密的数据
+    if (locked.value || !vaultKey) return
+    const key = vaultKey
+    // 加密是异步的，按顺序写入避免旧数据覆盖新数据
+    pendingVault = pendingVault
+      .then(async () => {
+        localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await encryptJson(secrets, key)))
+      })
+      .catch(e => console.error('Failed to save vault:', e))
   }
 
-  // 导出配置为 JSON
-  function exportConfig(): string {
-    return JSON.stringify({
-      providers: providers.value,
-      searchServices: searchServices.value,
-      theme: theme.value
-    }, null, 2)
+  // 导出配置为 JSON，启用主密码时敏感字段以密文导出
+  async function exportConfig(): Promise<string> {
+    if (!encrypted.value || !vaultKey) {
+      return JSON.stringify(toConfig(), null, 2)
+    }
+    const { config, secrets } = stripSecrets(toConfig())
+    return JSON.stringify({ ...config, vault: await encryptJson(secrets, vaultKey) }, null, 2)
   }
 
-  // 导入配置
-  function importConfig(jsonStr: string): boolean {
+  // 导出不含 API Key 等敏感字段的配置，用于分享
+  function exportRedactedConfig(): string {
+    return JSON.stringify(stripSecrets(toConfig()).config, null, 2)
+  }
+
+  // 读取导入的配置：解析、迁移到当前版本并校验；加密导出的配置需要导出时的主密码
+  async function readImport(jsonStr: string, passphrase?: string): Promise<{ config: AppConfig | null; errors: string[] }> {
+    const result = parseConfig(jsonStr)
+    const config = result.config
+    if (!config?.vault) return result
+    if (!passphrase) return { config: null, errors: ['该配置中的 Key 已加密，请填写导出时的主密码'] }
     try {
-      const config: AppConfig = JSON.parse(jsonStr)
-      if (config.providers) {
-        providers.value = config.providers
-        searchServices.value = config.searchServices || []
-        theme.value = config.theme || 'dark'
-        saveConfig()
-        return true
-      }
-      return false
+      const secrets = await decryptJson<ConfigSecrets>(config.vault, await openVaultKey(passphrase, config.vault))
+      applySecrets(config, secrets)
+      delete config.vault
+      return { config, errors: [] }
     } catch (e) {
-      console.error('Failed to import config:', e)
+      return { config: null, errors: [(e as Error).message] }
+    }
+  }
+
+  // 用导入的配置整体替换当前配置
+  function importConfig(config: AppConfig) {
+    applyConfig(config)
+    saveConfig()
+  }
+
+  // 导入的配置相对当前配置的变更（服务商、Key、模型、搜索服务、提示词）
+  function diffImport(config: AppConfig): ConfigChange[] {
+    return diffConfig(toConfig(), config)
+  }
+
+  // 只应用所选的变更，其余配置保持不变
+  function mergeImport(config: AppConfig, accepted: Set<string>) {
+    const merged = mergeConfig(toConfig(), config, accepted)
+    providers.value = merged.providers
+    searchServices.value = merged.searchServices
+    customProtocols.value = merged.customProtocols || []
+    prompts.value = merged.prompts || []
+    saveConfig()
+  }
+
+  // 设置或修改主密码（需已解锁）
+  async function setPassphrase(passphrase: string) {
+    if (locked.value) return
+    vaultKey = await createVaultKey(passphrase)
+    encrypted.value = true
+    saveConfig()
+    await pendingVault
+  }
+
+  // 取消主密码，敏感字段恢复明文保存
+  async function removePassphrase() {
+    if (locked.value) return
+    await pendingVault
+    localStorage.removeItem(VAULT_STORAGE_KEY)
+    vaultKey = null
+    encrypted.value = false
+    saveConfig()
+  }
+
+  // 用主密码解锁，密码错误时返回 false
+  async function unlock(passphrase: string): Promise<boolean> {
+    const saved = localStorage.getItem(VAULT_STORAGE_KEY)
+    if (!saved) {
+      locked.value = false
+      return true
+    }
+    try {
+      const payload: EncryptedPayload = JSON.parse(saved)
+      const key = await openVaultKey(passphrase, payload)
+      const secrets = await decryptJson<ConfigSecrets>(payload, key)
+      applySecrets(toConfig(), secrets)
+      vaultKey = key
+      locked.value = false
+      return true
+    } catch (e) {
+      console.error('Failed to unlock:', e)
       return false
     }
   }
 
+  // 锁定：清除内存中的敏感字段和密钥
+  function lock() {
+    if (!encrypted.value || locked.value) return
+    applySecrets(toConfig(), null)
+    vaultKey = null
+    locked.value = true
+  }
+
+  // 忘记主密码时丢弃已加密的敏感字段，其余配置保留
+  function resetVault() {
+    localStorage.removeItem(VAULT_STORAGE_KEY)
+    vaultKey = null
+    encrypted.value = false
+    locked.value = false
+    saveConfig()
+  }
+
+  function setLockAfterMinutes(minutes: number) {
+    lockAfterMinutes.value = Math.max(0, Math.floor(minutes) || 0)
+    saveConfig()
+  }
+
+  function setMaxToolRounds(rounds: number) {
+    maxToolRounds.value = Math.max(0, Math.floor(rounds) || 0)
+    saveConfig()
+  }
+
+  function setMaxRetries(retries: number) {
+    maxRetries.value = Math.max(0, Math.floor(retries) || 0)
+    saveConfig()
+  }
+
+  function setContextSettings(updates: Partial<ContextSettings>) {
+    const next = { ...context.value, ...updates }
+    next.keepTurns = Math.max(1, Math.floor(next.keepTurns) || 1)
+    context.value = next
+    saveConfig()
+  }
+
+  function setFetchProxy(proxy: string) {
+    fetchProxy.value = proxy.trim()
+    saveConfig()
+  }
+
+  // 自定义工具操作
+  function addCustomTool(tool: Omit<CustomTool, 'id'>): CustomTool {
+    const customTool: CustomTool = { id: generateId(), ...tool }
+    customTools.value.push(customTool)
+    saveConfig()
+    return customTool
+  }
+
+  function updateCustomTool(id: string, updates: Partial<Omit<CustomTool, 'id'>>) {
+    const tool = customTools.value.find(t => t.id === id)
+    if (tool) {
+      Object.assign(tool, updates)
+      saveConfig()
+    }
+  }
+
+  function deleteCustomTool(id: string) {
+    const index = customTools.value.findIndex(t => t.id === id)
+    if (index !== -1) {
+      customTools.value.splice(index, 1)
+      saveConfig()
+    }
+  }
+
+  // 自定义协议操作
+  function addCustomProtocol(protocol: Omit<CustomProtocol, 'id'>): CustomProtocol {
+    const customProtocol: CustomProtocol = { id: generateId(), ...protocol }
+    customProtocols.value.push(customProtocol)
+    saveConfig()
+    return customProtocol
+  }
+
+  function updateCustomProtocol(id: string, updates: Partial<Omit<CustomProtocol, 'id'>>) {
+    const protocol = customProtocols.value.find(p => p.id === id)
+    if (protocol) {
+      Object.assign(protocol, updates)
+      saveConfig()
+    }
+  }
+
+  // 删除后使用该协议的模型改回 OpenAI 协议
+  function deleteCustomProtocol(id: string) {
+    const index = customProtocols.value.findIndex(p => p.id === id)
+    if (index !== -1) {
+      customProtocols.value.splice(index, 1)
+      for (const provider of providers.value) {
+        for (const apiKey of provider.apiKeys) {
+          for (const model of apiKey.models) {
+            if (model.protocol === toCustomProtocol(id)) model.protocol = 'openai'
+          }
+        }
+      }
+      saveConfig()
+    }
+  }
+
+  // 提示词库操作
+  function addPrompt(prompt: Omit<PromptPreset, 'id'>): PromptPreset {
+    const preset: PromptPreset = { id: generateId(), ...prompt }
+    prompts.value.push(preset)
+    saveConfig()
+    return preset
+  }
+
+  function updatePrompt(id: string, updates: Partial<Omit<PromptPreset, 'id'>>) {
+    const prompt = prompts.value.find(p => p.id === id)
+    if (prompt) {
+      Object.assign(prompt, updates)
+      saveConfig()
+    }
+  }
+
+  function deletePrompt(id: string) {
+    const index = prompts.value.findIndex(p => p.id === id)
+    if (index !== -1) {
+      prompts.value.splice(index, 1)
+      saveConfig()
+    }
+  }
+
+  const systemPrompts = computed(() => prompts.value.filter(p => p.kind === 'system'))
+  const userPrompts = computed(() => prompts.value.filter(p => p.kind === 'user'))
+
+  function getCustomProtocol(protocol: ApiProtocol | undefined): CustomProtocol | undefined {
+    const id = protocol && customProtocolId(protocol)
+    return id ? customProtocols.value.find(p => p.id === id) : undefined
+  }
+
   // Provider 操作
   function addProvider(name: string, baseUrl: string): Provider {
     const provider: Provider = {
@@ -111,12 +376,13 @@ export const useConfigStore = defineStore('config', () => {
     return apiKey
   }
 
-  function updateApiKey(providerId: string, apiKeyId: string, updates: Partial<Pick<ApiKey, 'name' | 'key'>>) {
+  function updateApiKey(providerId: string, apiKeyId: string, updates: Partial<Pick<ApiKey, 'name' | 'key' | 'maxConcurrency'>>) {
     const provider = providers.value.find(p => p.id === providerId)
     const apiKey = provider?.apiKeys.find(k => k.id === apiKeyId)
     if (apiKey) {
       if (updates.name) apiKey.name = updates.name
       if (updates.key) apiKey.key = updates.key
+      if ('maxConcurrency' in updates) apiKey.maxConcurrency = updates.maxConcurrency
       saveConfig()
     }
   }
@@ -133,7 +399,7 @@ export const useConfigStore = defineStore('config', () => {
   }
 
   // Model 操作
-  function addModel(providerId: string, apiKeyId: string, modelName: string): Model | null {
+  function addModel(providerId: string, apiKeyId: string, modelName: string, protocol?: ApiProtocol, capabilities?: ModelCapabilities): Model | null {
     const provider = providers.value.find(p => p.id === providerId)
     const apiKey = provider?.apiKeys.find(k => k.id === apiKeyId)
     if (!apiKey) return null
@@ -141,14 +407,16 @@ export const useConfigStore = defineStore('config', () => {
     const model: Model = {
       id: generateId(),
       name: modelName,
-      enabled: true
+      enabled: true,
+      protocol,
+      capabilities
     }
     apiKey.models.push(model)
     saveConfig()
     return model
   }
 
-  function updateModel(providerId: string, apiKeyId: string, modelId: string, updates: Partial<Pick<Model, 'name' | 'enabled' | 'protocol'>>) {
+  function updateModel(providerId: string, apiKeyId: string, modelId: string, updates: Partial<Pick<Model, 'name' | 'enabled' | 'protocol' | 'defaultParams' | 'inputPrice' | 'outputPrice' | 'capabilities'>>) {
     const provider = providers.value.find(p => p.id === providerId)
     const apiKey = provider?.apiKeys.find(k => k.id === apiKeyId)
     const model = apiKey?.models.find(m => m.id === modelId)
@@ -156,6 +424,11 @@ export const useConfigStore = defineStore('config', () => {
       if (updates.name !== undefined) model.name = updates.name
       if (updates.enabled !== undefined) model.enabled = updates.enabled
       if (updates.protocol !== undefined) model.protocol = updates.protocol
+      if (updates.defaultParams !== undefined) model.defaultParams = updates.defaultParams
+      if (updates.capabilities !== undefined) model.capabilities = updates.capabilities
+      // 价格允许清空
+      if ('inputPrice' in updates) model.inputPrice = updates.inputPrice
+      if ('outputPrice' in updates) model.outputPrice = updates.outputPrice
       saveConfig()
     }
   }
@@ -228,6 +501,48 @@ export const useConfigStore = defineStore('config', () => {
     return result
   })
 
+  // 根据选择查找服务商 / Key / 模型
+  function getModelInfo(selection: ModelSelection | null) {
+    if (!selection) return null
+    const provider = providers.value.find(p => p.id === selection.providerId)
+    const apiKey = provider?.apiKeys.find(k => k.id === selection.apiKeyId)
+    const model = apiKey?.models.find(m => m.id === selection.modelId)
+    if (!provider || !apiKey || !model) return null
+    return { provider, apiKey, model }
+  }
+
+  // 实际处理请求的 Key 上的同名模型（切换 Key 后按该 Key 的模型价格计费），找不到时为所选模型
+  function getServingModel(selection: ModelSelection | null, keyId?: string): Model | null {
+    const info = getModelInfo(selection)
+    if (!info) return null
+    if (!keyId || keyId === info.apiKey.id) return info.model
+    const apiKey = info.provider.apiKeys.find(k => k.id === keyId)
+    return apiKey?.models.find(m => m.name === info.model.name) ?? info.model
+  }
+
+  // 解析为请求目标，使用模型默认生成参数
+  function resolveTarget(selection: ModelSelection | null): ChatTarget | null {
+    const info = getModelInfo(selection)
+    if (!info) return null
+    // 同一服务商下配置了同名模型的其他 Key 作为备用
+    const fallbackKeys = info.provider.apiKeys
+      .filter(k => k.id !== info.apiKey.id && k.models.some(m => m.name === info.model.name))
+      .map(k => ({ id: k.id, name: k.name, apiKey: k.key, maxConcurrency: k.maxConcurrency }))
+    return {
+      baseUrl: info.provider.baseUrl,
+      apiKey: info.apiKey.key,
+      model: info.model.name,
+      protocol: info.model.protocol || 'openai',
+      params: mergeParams(info.model.defaultParams),
+      customProtocol: getCustomProtocol(info.model.protocol),
+      keyId: info.apiKey.id,
+      keyName: info.apiKey.name,
+      maxConcurrency: info.apiKey.maxConcurrency,
+      maxRetries: maxRetries.value,
+      fallbackKeys
+    }
+  }
+
   // 初始化时加载配置
   loadConfig()
 
@@ -235,12 +550,51 @@ export const useConfigStore = defineStore('config', () => {
     providers,
     searchServices,
     theme,
+    maxToolRounds,
+    setMaxToolRounds,
+    maxRetries,
+    setMaxRetries,
+    lockAfterMinutes,
+    setLockAfterMinutes,
+    encrypted,
+    locked,
+    setPassphrase,
+    removePassphrase,
+    unlock,
+    lock,
+    resetVault,
+    fetchProxy,
+    setFetchProxy,
+    context,
+    setContextSettings,
+    customTools,
+    addCustomTool,
+    updateCustomTool,
+    deleteCustomTool,
+    customProtocols,
+    addCustomProtocol,
+    updateCustomProtocol,
+    deleteCustomProtocol,
+    getCustomProtocol,
+    prompts,
+    systemPrompts,
+    userPrompts,
+    addPrompt,
+    updatePrompt,
+    deletePrompt,
     availableModels,
     enabledSearchService,
+    getModelInfo,
+    getServingModel,
+    resolveTarget,
     loadConfig,
     saveConfig,
     exportConfig,
+    exportRedactedConfig,
+    readImport,
     importConfig,
+    diffImport,
+    mergeImport,
     addProvider,
     updateProvider,
     deleteProvider,
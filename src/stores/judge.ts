@@ -0,0 +1,117 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { useConfigStore } from './config'
+import { useChatStore } from './chat'
+import { useUsageStore } from './usage'
+import { runJudge, DEFAULT_RUBRIC } from '../utils/judge'
+import { calcCost } from '../utils/cost'
+import { activeNodes } from '../utils/messageTree'
+import type { JudgeCriterion, ModelSelection, ComparePanel } from '../types/config'
+
+const STORAGE_KEY = 'llms_compare_judge'
+
+// 评审 store - 评审模型、评审标准和评审状态
+export const useJudgeStore = defineStore('judge', () => {
+  const configStore = useConfigStore()
+  const chatStore = useChatStore()
+  const usageStore = useUsageStore()
+
+  const judgeSelection = ref<ModelSelection | null>(null)
+  const rubric = ref<JudgeCriterion[]>(DEFAULT_RUBRIC.map(c => ({ ...c })))
+
+  // 每个面板的评审状态：running 或错误信息
+  const panelStatus = ref<Map<string, { running: boolean; error?: string }>>(new Map())
+
+  function loadSettings() {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (saved) {
+      try {
+        const data = JSON.parse(saved)
+        judgeSelection.value = data.judgeSelection || null
+        if (Array.isArray(data.rubric) && data.rubric.length > 0) {
+          rubric.value = data.rubric
+        }
+      } catch (e) {
+        console.error('Failed to load judge settings:', e)
+      }
+    }
+  }
+
+  function saveSettings() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      judgeSelection: judgeSelection.value,
+      rubric: rubric.value
+    }))
+  }
+
+  function resetRubric() {
+    rubric.value = DEFAULT_RUBRIC.map(c => ({ ...c }))
+    saveSettings()
+  }
+
+  // 面板当前分支的最后一轮问答
+  function getLastExchange(panel: ComparePanel) {
+    const path = activeNodes(panel.tree)
+    const answerIndex = path.map(n => n.message.role).lastIndexOf('assistant')
+    if (answerIndex === -1) return null
+    const answer = path[answerIndex]!
+    if (!answer.message.content) return null
+    const question = path.slice(0, answerIndex).reverse().find(n => n.message.role === 'user')
+    if (!question) return null
+    return { answerId: answer.id, question: question.message.content, answer: answer.message.content }
+  }
+
+  async function judgePanel(panel: ComparePanel) {
+    const target = configStore.resolveTarget(judgeSelection.value)
+    const info = configStore.getModelInfo(judgeSelection.value)
+    const exchange = getLastExchange(panel)
+    if (!target || !info || !exchange) return
+
+    const criteria = rubric.value.filter(c => c.name.trim())
+    if (criteria.length === 0) {
+      panelStatus.value.set(panel.id, { running: false, error: '没有评审标准' })
+      return
+    }
+    panelStatus.value.set(panel.id, { running: true })
+    try {
+      // 评审请求与聊天回复一样计费并累计到评审模型的 Key
+      const result = await runJudge(target, exchange.question, exchange.answer, criteria, (usage, keyId) => {
+        const model = configStore.getServingModel(judgeSelection.value, keyId) ?? info.model
+        usageStore.recordUsage(keyId ?? info.apiKey.id, usage, calcCost(usage, model))
+      })
+      const values = Object.values(result.scores)
+      chatStore.setComparePanelMessageJudgement(panel.id, exchange.answerId, {
+        judgeModel: `${info.provider.name} / ${info.model.name}`,
+        scores: result.scores,
+        reasoning: result.reasoning,
+        total: values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length * 10) / 10 : 0,
+        attempts: result.attempts,
+        createdAt: Date.now()
+      })
+      panelStatus.value.delete(panel.id)
+    } catch (error) {
+      panelStatus.value.set(panel.id, {
+        running: false,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  // 并行评审所有有回复的面板
+  async function judgeAll(panels: ComparePanel[]) {
+    saveSettings()
+    await Promise.all(panels.filter(p => getLastExchange(p)).map(p => judgePanel(p)))
+  }
+
+  loadSettings()
+
+  return {
+    judgeSelection,
+    rubric,
+    panelStatus,
+    saveSettings,
+    resetRubric,
+    getLastExchange,
+    judgeAll
+  }
+})
@@ -0,0 +1,220 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { watchDebounced } from '@vueuse/core'
+import { useChatStore } from './chat'
+import { idbGetAll, idbPut, idbDelete } from '../utils/db'
+import { createMessageTree, messageTreeFromList, activeMessages, allMessages } from '../utils/messageTree'
+import type { ChatSession, ComparePanel, Message } from '../types/config'
+
+const DEFAULT_TITLE = '新对话'
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 9)
+}
+
+// 序列化会话（去掉响应式代理和运行时状态）；临时 API 的 Key 不保存，重新打开会话后需重新填写
+function serializeSession(session: ChatSession): string {
+  return JSON.stringify({
+    ...session,
+    panels: session.panels.map(p => ({
+      ...p,
+      streaming: false,
+      tempApi: p.tempApi && { ...p.tempApi, apiKey: '' }
+    }))
+  })
+}
+
+// 旧版会话的面板保存线性消息列表，加载时转换为消息树
+function upgradePanel(panel: ComparePanel & { messages?: Message[] }) {
+  if (!panel.tree) {
+    panel.tree = messageTreeFromList(panel.messages || [])
+    delete panel.messages
+  }
+  panel.streaming = false
+}
+
+// 由第一条用户消息生成标题
+function deriveTitle(panels: ComparePanel[]): string | null {
+  for (const panel of panels) {
+    const firstUser = activeMessages(panel.tree).find(m => m.role === 'user')
+    if (firstUser?.content.trim()) {
+      const text = firstUser.content.trim().replace(/\s+/g, ' ')
+      return text.length > 30 ? text.slice(0, 30) + '…' : text
+    }
+  }
+  return null
+}
+
+export interface SessionSearchResult {
+  session: ChatSession
+  snippet?: string  // 消息正文中的命中片段
+}
+
+// 会话 store - 对比会话的持久化（IndexedDB）
+export const useSessionStore = defineStore('session', () => {
+  const chatStore = useChatStore()
+
+  const sessions = ref<ChatSession[]>([])
+  const currentSessionId = ref<string | null>(null)
+  let loadPromise: Promise<void> | null = null
+
+  // 已保存内容的快照，用于跳过无变化的写入
+  const savedSnapshots = new Map<string, string>()
+
+  // 按更新时间倒序
+  const sortedSessions = computed(() =>
+    [...sessions.value].sort((a, b) => b.updatedAt - a.updatedAt)
+  )
+
+  const currentSession = computed(() =>
+    sessions.value.find(s => s.id === currentSessionId.value) || null
+  )
+
+  // 从 IndexedDB 加载所有会话（只加载一次）
+  function loadSessions(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = idbGetAll<ChatSession>('sessions')
+        .then(list => {
+          for (const session of list) {
+            session.panels.forEach(upgradePanel)
+            savedSnapshots.set(session.id, serializeSession(session))
+          }
+          sessions.value = list
+        })
+        .catch(e => {
+          console.error('Failed to load sessions:', e)
+        })
+    }
+    return loadPromise
+  }
+
+  async function persistSession(session: ChatSession) {
+    const snapshot = serializeSession(session)
+    if (savedSnapshots.get(session.id) === snapshot) return
+    savedSnapshots.set(session.id, snapshot)
+    try {
+      await idbPut('sessions', JSON.parse(snapshot) as ChatSession)
+    } catch (e) {
+      console.error('Failed to save session:', e)
+    }
+  }
+
+  // 新建会话：默认沿用当前面板的模型选择（不含竞技场匿名位置），清空消息
+  function createSession(initialPanels?: ComparePanel[]): ChatSession {
+    const panels: ComparePanel[] = initialPanels || JSON.parse(JSON.stringify(chatStore.comparePanels))
+      .map((p: ComparePanel) => ({ ...p, arena: undefined, tree: createMessageTree(), streaming: false }))
+
+    const now = Date.now()
+    sessions.value.push({
+      id: generateId(),
+      title: DEFAULT_TITLE,
+      panels,
+      createdAt: now,
+      updatedAt: now
+    })
+    const session = sessions.value[sessions.value.length - 1]!
+    persistSession(session)
+    return session
+  }
+
+  // 打开会话：面板直接引用会话中的数据，修改会自动保存
+  function openSession(id: string): boolean {
+    const session = sessions.value.find(s => s.id === id)
+    if (!session) return false
+    currentSessionId.value = id
+    chatStore.setComparePanels(session.panels)
+    return true
+  }
+
+  // 打开指定会话，不存在时打开最近的会话或新建，返回实际打开的会话 ID
+  async function restoreSession(id?: string): Promise<string> {
+    await loadSessions()
+    if (id && openSession(id)) return id
+    const session = sortedSessions.value[0] || createSession()
+    openSession(session.id)
+    return session.id
+  }
+
+  function renameSession(id: string, title: string) {
+    const session = sessions.value.find(s => s.id === id)
+    if (session && title.trim()) {
+      session.title = title.trim()
+      session.updatedAt = Date.now()
+      persistSession(session)
+    }
+  }
+
+  async function deleteSession(id: string) {
+    const index = sessions.value.findIndex(s => s.id === id)
+    if (index === -1) return
+    sessions.value.splice(index, 1)
+    savedSnapshots.delete(id)
+    if (currentSessionId.value === id) {
+      currentSessionId.value = null
+    }
+    try {
+      await idbDelete('sessions', id)
+    } catch (e) {
+      console.error('Failed to delete session:', e)
+    }
+  }
+
+  // 全文搜索：匹配标题和所有面板各分支的消息内容
+  function searchSessions(query: string): SessionSearchResult[] {
+    const q = query.trim().toLowerCase()
+    if (!q) return sortedSessions.value.map(session => ({ session }))
+
+    const results: SessionSearchResult[] = []
+    for (const session of sortedSessions.value) {
+      if (session.title.toLowerCase().includes(q)) {
+        results.push({ session })
+        continue
+      }
+      let snippet: string | undefined
+      for (const panel of session.panels) {
+        const msg = allMessages(panel.tree).find(m => m.content.toLowerCase().includes(q))
+        if (msg) {
+          const pos = msg.content.toLowerCase().indexOf(q)
+          const start = Math.max(0, pos - 20)
+          snippet = (start > 0 ? '…' : '') + msg.content.slice(start, pos + q.length + 40).replace(/\s+/g, ' ')
+          break
+        }
+      }
+      if (snippet !== undefined) {
+        results.push({ session, snippet })
+      }
+    }
+    return results
+  }
+
+  // 当前会话内容变化时自动保存
+  watchDebounced(
+    () => chatStore.comparePanels,
+    () => {
+      const session = currentSession.value
+      if (!session || session.panels !== chatStore.comparePanels) return
+      if (session.title === DEFAULT_TITLE) {
+        session.title = deriveTitle(session.panels) || DEFAULT_TITLE
+      }
+      const snapshot = serializeSession(session)
+      if (savedSnapshots.get(session.id) === snapshot) return
+      session.updatedAt = Date.now()
+      persistSession(session)
+    },
+    { deep: true, debounce: 500, maxWait: 3000 }
+  )
+
+  return {
+    sessions,
+    sortedSessions,
+    currentSessionId,
+    currentSession,
+    loadSessions,
+    createSession,
+    openSession,
+    restoreSession,
+    renameSession,
+    deleteSession,
+    searchSessions
+  }
+})
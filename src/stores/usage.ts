@@ -0,0 +1,66 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { TokenUsage } from '../types/config'
+
+const STORAGE_KEY = 'llms_compare_usage'
+
+// 单个 API Key 的累计用量
+export interface KeyUsage {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+// 用量 store - 按 API Key 累计请求数、token 和费用
+export const useUsageStore = defineStore('usage', () => {
+  const keyUsage = ref<Record<string, KeyUsage>>({})
+
+  function loadUsage() {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (saved) {
+      try {
+        keyUsage.value = JSON.parse(saved)
+      } catch (e) {
+        console.error('Failed to load usage:', e)
+      }
+    }
+  }
+
+  function saveUsage() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keyUsage.value))
+  }
+
+  // 记录一次请求
+  function recordUsage(apiKeyId: string, usage: TokenUsage | undefined, cost: number | undefined) {
+    const entry = keyUsage.value[apiKeyId] ??= { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+    entry.requests += 1
+    entry.inputTokens += usage?.inputTokens || 0
+    entry.outputTokens += usage?.outputTokens || 0
+    entry.cost += cost || 0
+    saveUsage()
+  }
+
+  // 清零某个 Key 的用量，不传则全部清零
+  function resetUsage(apiKeyId?: string) {
+    if (apiKeyId) {
+      delete keyUsage.value[apiKeyId]
+    } else {
+      keyUsage.value = {}
+    }
+    saveUsage()
+  }
+
+  const totalCost = computed(() =>
+    Object.values(keyUsage.value).reduce((total, u) => total + u.cost, 0)
+  )
+
+  loadUsage()
+
+  return {
+    keyUsage,
+    totalCost,
+    recordUsage,
+    resetUsage
+  }
+})
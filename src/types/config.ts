@@ -1,12 +1,37 @@
 // 配置类型定义
 
-export type ApiProtocol = 'openai' | 'anthropic' | 'gemini'
+// custom:<id> 引用设置中定义的自定义协议
+export type ApiProtocol = 'openai' | 'openai-responses' | 'azure' | 'anthropic' | 'gemini' | 'ollama' | `custom:${string}`
+
+// 生成参数（未设置的字段不发送，使用服务端默认值）
+export interface GenerationParams {
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+  stop?: string[]
+  seed?: number
+  thinkingBudget?: number   // 扩展思考的 token 预算（Anthropic / Gemini，Ollama 大于 0 时开启思考，Gemini 为 0 时关闭）
+  reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high'  // 推理强度（OpenAI 推理模型）
+}
+
+// 模型能力，自动获取时记录服务商返回的值，未设置的项按模型名和协议推断
+export interface ModelCapabilities {
+  vision?: boolean           // 支持图像 / PDF 输入
+  tools?: boolean            // 支持工具调用
+  reasoning?: boolean        // 支持思考 / 推理
+  contextWindow?: number     // 上下文长度（输入 tokens 上限）
+  maxOutputTokens?: number   // 最大输出 tokens
+}
 
 export interface Model {
   id: string
   name: string
   enabled: boolean
   protocol?: ApiProtocol // 可选，默认 openai
+  defaultParams?: GenerationParams // 模型默认生成参数
+  inputPrice?: number   // 输入价格（美元 / 百万 tokens）
+  outputPrice?: number  // 输出价格（美元 / 百万 tokens）
+  capabilities?: ModelCapabilities
 }
 
 export interface ApiKey {
@@ -14,6 +39,7 @@ export interface ApiKey {
   name: string
   key: string
   models: Model[]
+  maxConcurrency?: number  // 同时进行的请求数上限，超出时排队；未设置不限制
 }
 
 export interface Provider {
@@ -35,26 +61,191 @@ export interface SearchService {
   enabled: boolean
 }
 
+// 搜索结果（助手消息引用的来源）
+export interface SearchResult {
+  title: string
+  url: string
+  content: string
+  score?: number
+}
+
+// 工具参数的 JSON Schema
+export interface JsonSchemaProperty {
+  type?: string
+  description?: string
+  [key: string]: unknown
+}
+
+export interface ToolParameters {
+  type: 'object'
+  properties: Record<string, JsonSchemaProperty>
+  required?: string[]
+}
+
+// 用户在设置中定义的 HTTP 工具
+export interface CustomTool {
+  id: string
+  name: string                      // 工具名（函数名），只能包含字母、数字、下划线和连字符
+  description: string
+  method: 'GET' | 'POST'
+  url: string                       // 可包含 {{参数名}} 占位符
+  headers?: Record<string, string>
+  parameters: ToolParameters
+}
+
+// 提示词库：命名的系统提示词和带 {{变量}} 占位符的用户提示词模板
+export interface PromptPreset {
+  id: string
+  name: string
+  kind: 'system' | 'user'
+  content: string
+}
+
+// 用户自定义协议：用于接近 OpenAI 兼容但路径、认证或响应格式不同的网关
+export interface CustomProtocol {
+  id: string
+  name: string
+  url: string                       // 请求地址模板，可用 {baseUrl} {model} {apiKey}
+  headers: Record<string, string>   // 请求头，值中可用 {apiKey} {model}
+  body: string                      // JSON 请求体模板，{model} {messages} 等替换为 JSON 值
+  framing: 'sse' | 'ndjson'         // 流格式
+  contentPath: string               // 文本增量的 JSON 路径，如 choices[0].delta.content
+  donePath?: string                 // 值为真时结束
+  errorPath?: string                // 值存在时作为错误信息
+}
+
+// 对话历史的上下文管理：none 发送完整历史；drop-oldest 超出上下文时丢弃最早的轮次；
+// last-turns 只保留最近 N 轮；summarize 用摘要模型总结最近 N 轮之前的对话
+export type ContextStrategy = 'none' | 'drop-oldest' | 'last-turns' | 'summarize'
+
+export interface ContextSettings {
+  strategy: ContextStrategy
+  keepTurns: number              // last-turns / summarize 保留原文的最近轮数
+  summaryModel?: ModelSelection  // summarize 使用的模型
+}
+
+// 主密码加密的数据（AES-GCM，密钥由 PBKDF2-SHA256 派生），二进制字段为 base64
+export interface EncryptedPayload {
+  version: 1
+  iterations: number
+  salt: string
+  iv: string
+  data: string
+}
+
 export interface AppConfig {
+  version?: number        // 配置结构版本，旧配置没有此字段（见 utils/configSchema.ts）
   providers: Provider[]
   searchServices: SearchService[]
   theme: 'light' | 'dark'
+  maxToolRounds?: number  // 每次回复最多的工具调用轮数
+  fetchProxy?: string     // fetch_url 工具使用的代理地址，{url} 替换为目标地址
+  customTools?: CustomTool[]
+  customProtocols?: CustomProtocol[]
+  prompts?: PromptPreset[]
+  context?: ContextSettings
+  maxRetries?: number     // 请求失败（限流、服务端错误）时每个 Key 的重试次数
+  lockAfterMinutes?: number  // 启用主密码时，无操作多少分钟后自动锁定（0 为不自动锁定）
+  vault?: EncryptedPayload   // 导出文件中加密的敏感字段（启用主密码时）
 }
 
 // 对话相关类型
+// 消息附件（图片或 PDF），data 为不含 data: 前缀的 base64
+export interface Attachment {
+  type: 'image' | 'pdf'
+  name: string
+  mimeType: string
+  data: string
+}
+
+// 工具调用（统一使用 OpenAI 格式，其他协议收发时转换）
+export interface ToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    arguments: string  // JSON 字符串
+  }
+  thoughtSignature?: string  // Gemini 思考签名，回传历史时需原样带上
+}
+
 export interface Message {
-  role: 'user' | 'assistant' | 'system'
+  role: 'user' | 'assistant' | 'system' | 'tool'
   content: string
+  attachments?: Attachment[]  // 用户消息的附件，发送时转换为各协议的多模态内容
+  toolCalls?: ToolCall[]      // 助手消息请求的工具调用
+  toolCallId?: string         // tool 消息：对应的工具调用 ID
+  toolName?: string           // tool 消息：工具名称
+  sources?: SearchResult[]    // 助手消息：本轮搜索得到的来源，[n] 对应 sources[n - 1]
+  reasoning?: string          // 助手消息：模型的思考过程（与回答分开显示）
+  reasoningSignature?: string // Anthropic 思考块签名，工具调用轮次中需原样回传
+  attempts?: RequestAttempt[] // 助手消息：失败的请求尝试（重试和切换 Key 记录）
+  metrics?: ResponseMetrics  // 助手消息的响应指标
+  judgement?: JudgeResult    // LLM 评审结果
+  contextTrim?: ContextTrim  // 助手消息：发送的历史经过裁剪或摘要
+}
+
+// 发送前对历史的处理结果
+export interface ContextTrim {
+  strategy: ContextStrategy
+  droppedTurns: number      // 丢弃的轮数
+  summarizedTurns: number   // 由摘要替代的轮数
+  estimatedTokens: number   // 实际发送的历史估算 tokens
+  summaryError?: string     // 摘要失败的原因（这些轮次改为丢弃）
+}
+
+// 一次失败的请求尝试及之后的处理
+export interface RequestAttempt {
+  keyName: string
+  status?: number         // HTTP 状态码，网络错误时没有
+  error: string
+  action: 'retry' | 'failover' | 'fail'  // 等待后重试 / 换用下一个 Key / 放弃
+  delayMs?: number        // 重试前的等待时间
+}
+
+// 服务商返回的 token 用量
+export interface TokenUsage {
+  inputTokens?: number
+  outputTokens?: number     // 包含思考 token
+  reasoningTokens?: number  // 其中思考部分（服务商返回时）
+}
+
+// 流式响应指标
+export interface ResponseMetrics {
+  firstTokenMs?: number     // 首字延迟
+  durationMs: number        // 总耗时
+  tokensPerSecond?: number  // 输出速度（开始输出之后，包括思考）
+  reasoningMs?: number      // 思考耗时（第一段思考到回答开始）
+  usage?: TokenUsage
+  cost?: number             // 按当时模型价格计算的费用（美元）
+  keyId?: string            // 实际使用的 API Key（切换 Key 后与所选的不同）
 }
 
+// 对比会话（保存到 IndexedDB）
 export interface ChatSession {
   id: string
   title: string
-  messages: Message[]
+  panels: ComparePanel[]   // 面板（含模型选择和消息）
   createdAt: number
   updatedAt: number
 }
 
+// LLM 评审标准
+export interface JudgeCriterion {
+  name: string
+  description: string
+}
+
+// LLM 评审结果（每项 1-10 分）
+export interface JudgeResult {
+  judgeModel: string               // 评审模型名称
+  scores: Record<string, number>   // 按标准名称的评分
+  reasoning: string
+  total: number                    // 各项平均分
+  attempts: number                 // 实际调用次数（含格式错误重试）
+  createdAt: number
+}
+
 // 多模型对比相关
 export interface ModelSelection {
   providerId: string
@@ -69,10 +260,84 @@ export interface TempApiConfig {
   model: string
 }
 
+// 竞技场（盲测）
+export type ArenaVerdict = 'a' | 'b' | 'tie' | 'bad'
+
+export interface ArenaSlot {
+  battleId: string
+  label: string  // 匿名标签（A/B），投票前隐藏模型名
+}
+
+export interface ArenaVote {
+  id: string
+  battleId: string
+  modelA: string  // 模型名称快照（服务商 / 模型）
+  modelB: string
+  verdict: ArenaVerdict
+  createdAt: number
+}
+
+// 消息树节点：同一父节点下的多个子节点是不同的分支（编辑后重发或重新生成）
+export interface MessageNode {
+  id: string
+  parentId: string | null
+  childIds: string[]
+  activeChildId: string | null  // 当前显示的子分支
+  message: Message
+}
+
+// 面板的消息树，当前分支从 activeRootId 开始沿 activeChildId 向下
+export interface MessageTree {
+  nodes: Record<string, MessageNode>
+  rootIds: string[]
+  activeRootId: string | null
+}
+
 export interface ComparePanel {
   id: string
   selection: ModelSelection | null
+  arena?: ArenaSlot  // 竞技场模式下的匿名位置
   tempApi?: TempApiConfig  // 临时 API 配置
-  messages: Message[]
+  params?: GenerationParams  // 面板生成参数，覆盖模型默认值
+  tools?: string[]  // 面板启用的工具名称
+  systemPrompt?: string  // 面板的系统提示词
+  samples?: number  // 每次请求的采样次数，多个回复作为同级分支保存
+  tree: MessageTree
   streaming: boolean
 }
+
+// 批量评测
+export interface DatasetItem {
+  id: string
+  prompt: string                       // 可包含 {{变量}} 占位符
+  expected?: string                    // 期望答案（可选）
+  variables?: Record<string, string>
+}
+
+export interface BatchModel {
+  selection: ModelSelection
+  label: string  // 模型名称快照（服务商 / 模型）
+}
+
+export type BatchCellStatus = 'pending' | 'running' | 'done' | 'error'
+
+export interface BatchCell {
+  status: BatchCellStatus
+  content?: string
+  error?: string
+  metrics?: ResponseMetrics
+}
+
+export type BatchRunStatus = 'idle' | 'running' | 'paused' | 'done'
+
+export interface BatchRun {
+  id: string
+  name: string
+  items: DatasetItem[]
+  models: BatchModel[]
+  concurrency: number
+  cells: Record<string, BatchCell>  // 键为 `${itemId}:${模型序号}`
+  status: BatchRunStatus
+  createdAt: number
+  updatedAt: number
+}
@@ -0,0 +1,123 @@
+// 智能体循环：模型可多轮调用工具，每轮都流式输出，工具调用和结果以结构化消息保留在历史中
+import { streamTarget, supportsTools, type ChatTarget, type Tool } from './api'
+import type { Message, RequestAttempt, ResponseMetrics, ToolCall } from '../types/config'
+
+export const DEFAULT_MAX_TOOL_ROUNDS = 5
+
+// 工具执行函数：参数为模型给出的 JSON 参数，返回交给模型的文本结果
+export type ToolHandler = (args: Record<string, unknown>, signal?: AbortSignal) => Promise<string>
+
+export interface AgentTool {
+  tool: Tool
+  handler: ToolHandler
+}
+
+export interface AgentCallbacks {
+  onRoundStart: () => void                        // 新一轮回复开始（界面添加空的助手消息）
+  onChunk: (chunk: string) => void
+  onReasoning?: (chunk: string) => void           // 本轮回复的思考过程
+  onMetrics?: (metrics: ResponseMetrics) => void  // 本轮回复的指标
+  onAttempt?: (attempt: RequestAttempt) => void   // 本轮请求失败后的重试 / 切换 Key
+  onToolCalls: (toolCalls: ToolCall[]) => void    // 本轮回复请求的工具调用
+  onToolStart?: (toolCall: ToolCall) => void
+  onToolResult: (toolCall: ToolCall, result: string) => void
+}
+
+export interface AgentOptions {
+  maxRounds?: number  // 最多的工具调用轮数，达到后要求模型直接回答
+  signal?: AbortSignal
+}
+
+// 一轮回复：工具调用轮次的思考内容需要保留在历史中（Anthropic 要求回传签名）
+type RoundResult = Pick<Message, 'content' | 'reasoning' | 'reasoningSignature'> & { toolCalls: ToolCall[] }
+
+// 流式请求一轮，返回本轮的文本、思考和工具调用
+function streamRound(
+  target: ChatTarget,
+  messages: Message[],
+  tools: Tool[],
+  allowTools: boolean,
+  callbacks: AgentCallbacks,
+  signal?: AbortSignal
+): Promise<RoundResult> {
+  return new Promise((resolve, reject) => {
+    let content = ''
+    let reasoning = ''
+    let reasoningSignature: string | undefined
+    let toolCalls: ToolCall[] = []
+    streamTarget(
+      target,
+      messages,
+      {
+        onChunk: (chunk) => {
+          content += chunk
+          callbacks.onChunk(chunk)
+        },
+        onReasoning: (chunk) => {
+          reasoning += chunk
+          callbacks.onReasoning?.(chunk)
+        },
+        onReasoningSignature: (signature) => { reasoningSignature = signature },
+        onMetrics: callbacks.onMetrics,
+        onAttempt: callbacks.onAttempt,
+        onToolCalls: (calls) => { toolCalls = calls },
+        onDone: () => resolve({ content, reasoning: reasoning || undefined, reasoningSignature, toolCalls }),
+        onError: reject
+      },
+      signal,
+      {
+        params: target.params,
+        tools: tools.length ? tools : undefined,
+        toolChoice: allowTools ? 'auto' : 'none',
+        customProtocol: target.customProtocol
+      }
+    )
+  })
+}
+
+async function executeTool(tools: AgentTool[], call: ToolCall, signal?: AbortSignal): Promise<string> {
+  const entry = tools.find(t => t.tool.function.name === call.function.name)
+  if (!entry) return `错误：未知工具 ${call.function.name}`
+  try {
+    const args = JSON.parse(call.function.arguments || '{}')
+    return await entry.handler(args, signal)
+  } catch (error) {
+    // 执行失败也作为结果返回给模型，由模型决定如何继续
+    return `工具执行失败：${error instanceof Error ? error.message : String(error)}`
+  }
+}
+
+// 运行智能体循环，直到模型不再调用工具、达到轮数上限或被中止
+export async function runAgent(
+  target: ChatTarget,
+  messages: Message[],
+  tools: AgentTool[],
+  callbacks: AgentCallbacks,
+  options: AgentOptions = {}
+): Promise<void> {
+  const { maxRounds = DEFAULT_MAX_TOOL_ROUNDS, signal } = options
+  const available = supportsTools(target.protocol) ? tools : []
+  const declared = available.map(t => t.tool)
+  const history = [...messages]
+
+  for (let round = 0; ; round++) {
+    const allowTools = declared.length > 0 && round < maxRounds
+    callbacks.onRoundStart()
+    const { toolCalls, ...reply } = await streamRound(target, history, declared, allowTools, callbacks, signal)
+    if (signal?.aborted || !allowTools || toolCalls.length === 0) return
+
+    history.push({ role: 'assistant', ...reply, toolCalls })
+    callbacks.onToolCalls(toolCalls)
+    // 每个工具调用都要有对应结果，中止后剩余的调用记为已取消
+    for (const call of toolCalls) {
+      let result = '已取消'
+      if (!signal?.aborted) {
+        callbacks.onToolStart?.(call)
+        result = await executeTool(available, call, signal)
+      }
+      history.push({ role: 'tool', content: result, toolCallId: call.id, toolName: call.function.name })
+      callbacks.onToolResult(call, result)
+    }
+    if (signal?.aborted) return
+  }
+}
@@ -1,21 +1,599 @@
-import type { Message, ApiProtocol } from '../types/config'
+import { attachmentUrl } from './attachments'
+import { isCustomProtocol, streamCustom } from './customProtocol'
+import { HttpError, toHttpError, isRetryable, isKeyError, retryDelay, sleep, acquireKeySlot, DEFAULT_MAX_RETRIES } from './retry'
+import type { Message, ApiProtocol, ModelCapabilities, GenerationParams, TokenUsage, ResponseMetrics, ToolCall, ToolParameters, CustomProtocol, RequestAttempt } from '../types/config'
+
+export type { ToolCall }
 
 export interface StreamCallbacks {
   onChunk: (chunk: string) => void
+  onReasoning?: (chunk: string) => void          // 思考过程增量
+  onReasoningSignature?: (signature: string) => void  // Anthropic 思考块签名
   onDone: () => void
   onError: (error: Error) => void
+  onUsage?: (usage: TokenUsage) => void          // 服务商返回 token 用量
+  onMetrics?: (metrics: ResponseMetrics) => void // 结束时（onDone 之前）汇总指标
+  onToolCalls?: (toolCalls: ToolCall[]) => void  // 本轮回复请求的工具调用（onDone 之前）
+  onAttempt?: (attempt: RequestAttempt) => void  // 请求失败后的重试 / 切换 Key（streamTarget）
+}
+
+// 已解析的请求目标（服务商地址 / Key / 模型）
+export interface ChatTarget {
+  baseUrl: string
+  apiKey: string
+  model: string
+  protocol: ApiProtocol
+  params?: GenerationParams
+  customProtocol?: CustomProtocol  // 自定义协议的定义（protocol 为 custom:<id> 时）
+  keyId?: string                   // 所用 API Key 的 ID（并发限制和用量统计）
+  keyName?: string
+  maxConcurrency?: number
+  maxRetries?: number              // 每个 Key 的重试次数，默认 DEFAULT_MAX_RETRIES
+  fallbackKeys?: TargetKey[]       // 重试用尽后依次切换的 Key（同一服务商下有同名模型）
+}
+
+// 可切换的 API Key
+export interface TargetKey {
+  id: string
+  name: string
+  apiKey: string
+  maxConcurrency?: number
+}
+
+// 请求选项
+export interface ChatOptions {
+  params?: GenerationParams
+  tools?: Tool[]
+  toolChoice?: 'auto' | 'none'  // none：声明工具但不允许调用（用于达到轮数上限后的最终回答）
+  customProtocol?: CustomProtocol
+}
+
+// Anthropic 要求必须提供 max_tokens
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096
+const ANTHROPIC_MIN_THINKING_BUDGET = 1024
+
+// Azure OpenAI 默认 API 版本（可在 Base URL 后用 ?api-version= 指定）
+const AZURE_DEFAULT_API_VERSION = '2024-10-21'
+// 列出部署的接口只在旧版本 API 中提供
+const AZURE_DEPLOYMENTS_API_VERSION = '2022-12-01'
+
+// 可选的 API 协议
+export const API_PROTOCOLS: Array<{ value: ApiProtocol; label: string }> = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'openai-responses', label: 'OpenAI Responses' },
+  { value: 'azure', label: 'Azure OpenAI' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'ollama', label: 'Ollama' }
+]
+
+// 请求地址和认证头
+interface Endpoint {
+  url: string
+  headers: Record<string, string>
+}
+
+function openAIEndpoint(baseUrl: string, apiKey: string, path: string): Endpoint {
+  return {
+    url: `${baseUrl}${path}`,
+    headers: { 'Authorization': `Bearer ${apiKey}` }
+  }
+}
+
+// Azure OpenAI：Base URL 为资源地址（如 https://xxx.openai.azure.com），模型名即部署名，使用 api-key 头认证
+function azureEndpoint(baseUrl: string, apiKey: string, path: string, apiVersion?: string): Endpoint {
+  const [resource = '', query] = baseUrl.split('?')
+  const version = apiVersion || new URLSearchParams(query).get('api-version') || AZURE_DEFAULT_API_VERSION
+  return {
+    url: `${resource.replace(/\/(openai\/?)?$/, '')}/openai${path}?api-version=${encodeURIComponent(version)}`,
+    headers: { 'api-key': apiKey }
+  }
+}
+
+// Chat Completions 接口（OpenAI 与 Azure OpenAI 的请求和响应格式相同）
+function chatCompletionsEndpoint(protocol: ApiProtocol, baseUrl: string, apiKey: string, model: string): Endpoint {
+  return protocol === 'azure'
+    ? azureEndpoint(baseUrl, apiKey, `/deployments/${encodeURIComponent(model)}/chat/completions`)
+    : openAIEndpoint(baseUrl, apiKey, '/chat/completions')
+}
+
+// Ollama 本地服务通常不需要认证，填写了 Key 时按 Bearer 发送（用于带认证的反向代理）
+function ollamaHeaders(apiKey: string): Record<string, string> {
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+}
+
+// Anthropic 使用 x-api-key 头认证，并要求指定 API 版本
+function anthropicHeaders(apiKey: string): Record<string, string> {
+  return {
+    'x-api-key': apiKey,
+    'anthropic-version': '2023-06-01'
+  }
+}
+
+// 合并多层生成参数，后面的覆盖前面的，忽略未设置的字段
+export function mergeParams(...layers: (GenerationParams | undefined)[]): GenerationParams {
+  const result: GenerationParams = {}
+  for (const layer of layers) {
+    if (!layer) continue
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined && value !== null) {
+        (result as Record<string, unknown>)[key] = value
+      }
+    }
+  }
+  return result
+}
+
+// 只发送协议需要的字段（Message 上还有指标等本地数据），附件转为 content parts
+function toOpenAIMessages(messages: Message[]) {
+  return messages.map(m => {
+    if (m.role === 'tool') {
+      return { role: 'tool', tool_call_id: m.toolCallId, content: m.content }
+    }
+    if (m.toolCalls?.length) {
+      return {
+        role: m.role,
+        content: m.content || null,
+        tool_calls: m.toolCalls.map(({ id, type, function: fn }) => ({ id, type, function: fn }))
+      }
+    }
+    if (!m.attachments?.length) return { role: m.role, content: m.content }
+    return {
+      role: m.role,
+      content: [
+        ...m.attachments.map(a => a.type === 'image'
+          ? { type: 'image_url', image_url: { url: attachmentUrl(a) } }
+          : { type: 'file', file: { filename: a.name, file_data: attachmentUrl(a) } }
+        ),
+        ...(m.content ? [{ type: 'text', text: m.content }] : [])
+      ]
+    }
+  })
+}
+
+function parseToolArguments(call: ToolCall): Record<string, unknown> {
+  try {
+    return JSON.parse(call.function.arguments || '{}')
+  } catch {
+    return {}
+  }
+}
+
+// Anthropic 消息：system 单独传，附件转为 image / document 块，
+// 工具调用转为 tool_use 块，连续的工具结果合并到同一条 user 消息的 tool_result 块中
+function toAnthropicMessages(messages: Message[]) {
+  const result: { role: string; content: string | object[] }[] = []
+  for (const m of messages) {
+    if (m.role === 'system') continue
+    if (m.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: m.toolCallId, content: m.content }
+      const prev = result[result.length - 1]
+      if (prev?.role === 'user' && Array.isArray(prev.content) &&
+        prev.content.every(b => (b as { type: string }).type === 'tool_result')) {
+        prev.content.push(block)
+      } else {
+        result.push({ role: 'user', content: [block] })
+      }
+      continue
+    }
+    if (m.toolCalls?.length) {
+      result.push({
+        role: m.role,
+        content: [
+          // 开启扩展思考时，工具调用轮次的思考块需要带签名原样回传
+          ...(m.reasoningSignature ? [{ type: 'thinking', thinking: m.reasoning || '', signature: m.reasoningSignature }] : []),
+          ...(m.content ? [{ type: 'text', text: m.content }] : []),
+          ...m.toolCalls.map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.function.name,
+            input: parseToolArguments(call)
+          }))
+        ]
+      })
+      continue
+    }
+    if (!m.attachments?.length) {
+      result.push({ role: m.role, content: m.content })
+      continue
+    }
+    result.push({
+      role: m.role,
+      content: [
+        ...m.attachments.map(a => ({
+          type: a.type === 'image' ? 'image' : 'document',
+          source: { type: 'base64', media_type: a.mimeType, data: a.data }
+        })),
+        ...(m.content ? [{ type: 'text', text: m.content }] : [])
+      ]
+    })
+  }
+  return result
+}
+
+// Gemini contents：附件转为 inlineData，工具调用转为 functionCall，
+// 连续的工具结果合并为同一条 user 消息中的 functionResponse
+function toGeminiContents(messages: Message[]) {
+  const result: { role: string; parts: object[] }[] = []
+  for (const m of messages) {
+    if (m.role === 'system') continue
+    if (m.role === 'tool') {
+      const part = { functionResponse: { name: m.toolName, response: { content: m.content } } }
+      const prev = result[result.length - 1]
+      if (prev?.role === 'user' && prev.parts.every(p => 'functionResponse' in p)) {
+        prev.parts.push(part)
+      } else {
+        result.push({ role: 'user', parts: [part] })
+      }
+      continue
+    }
+    result.push({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: [
+        ...(m.attachments || []).map(a => ({ inlineData: { mimeType: a.mimeType, data: a.data } })),
+        ...(m.content || (!m.attachments?.length && !m.toolCalls?.length) ? [{ text: m.content }] : []),
+        ...(m.toolCalls || []).map(call => ({
+          functionCall: { name: call.function.name, args: parseToolArguments(call) },
+          thoughtSignature: call.thoughtSignature
+        }))
+      ]
+    })
+  }
+  return result
+}
+
+// 请求中实际声明的工具：历史消息包含工具调用但本次未启用工具时，
+// 按名称补充最小声明并禁止调用（部分协议要求历史中的工具必须有声明）
+function resolveTools(messages: Message[], options: ChatOptions): { tools: Tool[]; toolChoice: 'auto' | 'none' } {
+  if (options.tools?.length) {
+    return { tools: options.tools, toolChoice: options.toolChoice || 'auto' }
+  }
+  const names = new Set(messages.flatMap(m => m.toolCalls?.map(c => c.function.name) || []))
+  return {
+    tools: [...names].map(name => ({
+      type: 'function' as const,
+      function: { name, description: name, parameters: { type: 'object' as const, properties: {} } }
+    })),
+    toolChoice: 'none'
+  }
+}
+
+function toAnthropicTools(tools: Tool[]) {
+  return tools.map(t => ({
+    name: t.function.name,
+    description: t.function.description,
+    input_schema: t.function.parameters
+  }))
+}
+
+// Responses API input：system 作为 instructions 单独传，工具调用和工具结果是独立的 item
+function toResponsesInput(messages: Message[]) {
+  const input: object[] = []
+  for (const m of messages) {
+    if (m.role === 'system') continue
+    if (m.role === 'tool') {
+      input.push({ type: 'function_call_output', call_id: m.toolCallId, output: m.content })
+      continue
+    }
+    if (m.role === 'assistant') {
+      if (m.content) input.push({ role: 'assistant', content: m.content })
+      for (const call of m.toolCalls || []) {
+        input.push({
+          type: 'function_call',
+          call_id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments || '{}'
+        })
+      }
+      continue
+    }
+    if (!m.attachments?.length) {
+      input.push({ role: m.role, content: m.content })
+      continue
+    }
+    input.push({
+      role: m.role,
+      content: [
+        ...m.attachments.map(a => a.type === 'image'
+          ? { type: 'input_image', image_url: attachmentUrl(a) }
+          : { type: 'input_file', filename: a.name, file_data: attachmentUrl(a) }
+        ),
+        ...(m.content ? [{ type: 'input_text', text: m.content }] : [])
+      ]
+    })
+  }
+  return input
+}
+
+function toResponsesTools(tools: Tool[]) {
+  return tools.map(t => ({
+    type: 'function',
+    name: t.function.name,
+    description: t.function.description,
+    parameters: t.function.parameters
+  }))
+}
+
+interface ResponsesFunctionCall {
+  type: 'function_call'
+  call_id: string
+  name: string
+  arguments?: string
+}
+
+function toResponsesToolCall(item: ResponsesFunctionCall): ToolCall {
+  return {
+    id: item.call_id,
+    type: 'function',
+    function: { name: item.name, arguments: item.arguments || '{}' }
+  }
+}
+
+// Ollama 消息：图片为 base64 列表（不支持 PDF），工具调用参数是对象
+function toOllamaMessages(messages: Message[]) {
+  return messages.map(m => {
+    if (m.role === 'tool') {
+      return { role: 'tool', content: m.content, tool_name: m.toolName }
+    }
+    const images = m.attachments?.filter(a => a.type === 'image').map(a => a.data)
+    return {
+      role: m.role,
+      content: m.content,
+      images: images?.length ? images : undefined,
+      tool_calls: m.toolCalls?.map(call => ({
+        function: { name: call.function.name, arguments: parseToolArguments(call) }
+      }))
+    }
+  })
+}
+
+function toOllamaTools(tools: Tool[], toolChoice: 'auto' | 'none') {
+  // Ollama 不支持 tool_choice，不允许调用时不声明工具
+  return tools.length && toolChoice === 'auto' ? tools : undefined
+}
+
+interface OllamaToolCall {
+  function: { name: string; arguments?: object }
+}
+
+// Ollama 不返回调用 ID，按位置生成
+function toOllamaToolCall(call: OllamaToolCall, index: number): ToolCall {
+  return {
+    id: `call_${index}`,
+    type: 'function',
+    function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments || {}) }
+  }
+}
+
+interface GeminiPart {
+  text?: string
+  thought?: boolean
+  thoughtSignature?: string
+  functionCall?: { id?: string; name: string; args?: object }
+}
+
+// Gemini functionCall -> ToolCall，旧版本 API 不返回调用 ID，按位置生成
+function toGeminiToolCall(part: GeminiPart, index: number): ToolCall {
+  return {
+    id: part.functionCall!.id || `call_${index}`,
+    type: 'function',
+    function: {
+      name: part.functionCall!.name,
+      arguments: JSON.stringify(part.functionCall!.args || {})
+    },
+    thoughtSignature: part.thoughtSignature
+  }
+}
+
+function toGeminiTools(tools: Tool[]) {
+  return [{
+    functionDeclarations: tools.map(t => ({
+      name: t.function.name,
+      description: t.function.description,
+      parameters: t.function.parameters
+    }))
+  }]
+}
+
+// 生成参数 -> OpenAI 请求字段
+function toOpenAIParams(params: GenerationParams = {}) {
+  return {
+    temperature: params.temperature,
+    max_tokens: params.maxTokens,
+    top_p: params.topP,
+    stop: params.stop?.length ? params.stop : undefined,
+    seed: params.seed,
+    reasoning_effort: params.reasoningEffort
+  }
+}
+
+// 生成参数 -> Anthropic 请求字段（不支持 seed）
+function toAnthropicParams(params: GenerationParams = {}) {
+  const maxTokens = params.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS
+  if (params.thinkingBudget) {
+    // 扩展思考：预算最少 1024，max_tokens 包含思考部分，且不支持修改 temperature / top_p
+    const budget = Math.max(ANTHROPIC_MIN_THINKING_BUDGET, params.thinkingBudget)
+    return {
+      max_tokens: budget + maxTokens,
+      thinking: { type: 'enabled', budget_tokens: budget },
+      stop_sequences: params.stop?.length ? params.stop : undefined
+    }
+  }
+  return {
+    max_tokens: maxTokens,
+    temperature: params.temperature,
+    top_p: params.topP,
+    stop_sequences: params.stop?.length ? params.stop : undefined
+  }
+}
+
+// 生成参数 -> Responses API 请求字段（不支持 stop 和 seed）
+function toResponsesParams(params: GenerationParams = {}) {
+  return {
+    temperature: params.temperature,
+    max_output_tokens: params.maxTokens,
+    top_p: params.topP,
+    // 设置推理强度时请求思考摘要，否则不返回思考内容
+    reasoning: params.reasoningEffort ? { effort: params.reasoningEffort, summary: 'auto' } : undefined
+  }
+}
+
+// Ollama 思考开关：设置了思考预算或推理强度时开启（预算为 0 时关闭）
+function toOllamaThink(params: GenerationParams = {}): boolean | undefined {
+  if (params.thinkingBudget !== undefined) return params.thinkingBudget > 0
+  return params.reasoningEffort ? true : undefined
+}
+
+// 生成参数 -> Ollama options
+function toOllamaOptions(params: GenerationParams = {}) {
+  const options = {
+    temperature: params.temperature,
+    num_predict: params.maxTokens,
+    top_p: params.topP,
+    stop: params.stop?.length ? params.stop : undefined,
+    seed: params.seed
+  }
+  return Object.values(options).some(v => v !== undefined) ? options : undefined
+}
+
+// 生成参数 -> Gemini generationConfig
+function toGeminiConfig(params: GenerationParams = {}) {
+  const config = {
+    temperature: params.temperature,
+    maxOutputTokens: params.maxTokens,
+    topP: params.topP,
+    stopSequences: params.stop?.length ? params.stop : undefined,
+    seed: params.seed,
+    // 设置思考预算时返回思考摘要，预算为 0 时关闭思考
+    thinkingConfig: params.thinkingBudget !== undefined
+      ? { thinkingBudget: params.thinkingBudget, includeThoughts: params.thinkingBudget !== 0 }
+      : undefined
+  }
+  return Object.values(config).some(v => v !== undefined) ? config : undefined
 }
 
-// OpenAI 协议
+// 不接受 stream_options 的兼容服务（返回 400），之后的请求不再发送
+const noStreamOptionsEndpoints = new Set<string>()
+
+// OpenAI 协议（Chat Completions，Azure OpenAI 共用）
 async function streamOpenAI(
+  endpoint: Endpoint,
+  model: string,
+  messages: Message[],
+  callbacks: StreamCallbacks,
+  signal?: AbortSignal,
+  options: ChatOptions = {}
+): Promise<void> {
+  const { tools, toolChoice } = resolveTools(messages, options)
+
+  const request = (includeUsage: boolean) => fetch(endpoint.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...endpoint.headers
+    },
+    body: JSON.stringify({
+      model,
+      messages: toOpenAIMessages(messages),
+      ...toOpenAIParams(options.params),
+      tools: tools.length ? tools : undefined,
+      tool_choice: tools.length ? toolChoice : undefined,
+      stream: true,
+      stream_options: includeUsage ? { include_usage: true } : undefined
+    }),
+    signal
+  })
+
+  // 严格的兼容网关会以 400 拒绝 stream_options，错误信息提到它时去掉后重试一次（其他 400 直接报错）
+  let response = await request(!noStreamOptionsEndpoints.has(endpoint.url))
+  if (response.status === 400 && !noStreamOptionsEndpoints.has(endpoint.url)) {
+    const error = await toHttpError(response)
+    if (signal?.aborted || !error.message.includes('stream_options')) throw error
+    response = await request(false)
+    if (response.ok) noStreamOptionsEndpoints.add(endpoint.url)
+  }
+
+  if (!response.ok) {
+    throw await toHttpError(response)
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body')
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  // 工具调用按 index 分片返回，arguments 需要拼接
+  const toolCalls: ToolCall[] = []
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed === 'data: [DONE]') continue
+      if (!trimmed.startsWith('data: ')) continue
+
+      try {
+        const json = JSON.parse(trimmed.slice(6))
+        const delta = json.choices?.[0]?.delta
+        // DeepSeek 等兼容接口使用 reasoning_content，OpenRouter 使用 reasoning
+        const reasoning = delta?.reasoning_content || delta?.reasoning
+        if (reasoning) {
+          callbacks.onReasoning?.(reasoning)
+        }
+        if (delta?.content) {
+          callbacks.onChunk(delta.content)
+        }
+        for (const toolDelta of delta?.tool_calls || []) {
+          const call = toolCalls[toolDelta.index ?? toolCalls.length] ??= {
+            id: '',
+            type: 'function',
+            function: { name: '', arguments: '' }
+          }
+          if (toolDelta.id) call.id = toolDelta.id
+          if (toolDelta.function?.name) call.function.name += toolDelta.function.name
+          if (toolDelta.function?.arguments) call.function.arguments += toolDelta.function.arguments
+        }
+        // include_usage 时最后一个 chunk 携带 usage
+        if (json.usage) {
+          callbacks.onUsage?.({
+            inputTokens: json.usage.prompt_tokens,
+            outputTokens: json.usage.completion_tokens,
+            reasoningTokens: json.usage.completion_tokens_details?.reasoning_tokens
+          })
+        }
+      } catch {
+        // 忽略解析错误
+      }
+    }
+  }
+
+  const calls = toolCalls.filter(c => c.function.name)
+  if (calls.length > 0) {
+    callbacks.onToolCalls?.(calls)
+  }
+}
+
+// OpenAI Responses API：SSE 事件按 type 区分
+async function streamResponses(
   baseUrl: string,
   apiKey: string,
   model: string,
   messages: Message[],
   callbacks: StreamCallbacks,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  options: ChatOptions = {}
 ): Promise<void> {
-  const url = `${baseUrl}/chat/completions`
+  const url = `${baseUrl}/responses`
+  const systemMsg = messages.find(m => m.role === 'system')
+  const { tools, toolChoice } = resolveTools(messages, options)
 
   const response = await fetch(url, {
     method: 'POST',
@@ -25,15 +603,18 @@ async function streamOpenAI(
     },
     body: JSON.stringify({
       model,
-      messages,
+      instructions: systemMsg?.content,
+      input: toResponsesInput(messages),
+      ...toResponsesParams(options.params),
+      tools: tools.length ? toResponsesTools(tools) : undefined,
+      tool_choice: tools.length ? toolChoice : undefined,
       stream: true
     }),
     signal
   })
 
   if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`API Error ${response.status}: ${errorText}`)
+    throw await toHttpError(response)
   }
 
   const reader = response.body?.getReader()
@@ -43,6 +624,7 @@ async function streamOpenAI(
 
   const decoder = new TextDecoder()
   let buffer = ''
+  const toolCalls: ToolCall[] = []
 
   while (true) {
     const { done, value } = await reader.read()
@@ -54,20 +636,126 @@ async function streamOpenAI(
 
     for (const line of lines) {
       const trimmed = line.trim()
-      if (!trimmed || trimmed === 'data: [DONE]') continue
       if (!trimmed.startsWith('data: ')) continue
 
+      let json
       try {
-        const json = JSON.parse(trimmed.slice(6))
-        const content = json.choices?.[0]?.delta?.content
-        if (content) {
-          callbacks.onChunk(content)
-        }
+        json = JSON.parse(trimmed.slice(6))
       } catch {
-        // 忽略解析错误
+        continue // 忽略解析错误
+      }
+
+      if (json.type === 'response.output_text.delta' && json.delta) {
+        callbacks.onChunk(json.delta)
+      } else if (json.type === 'response.reasoning_summary_text.delta' && json.delta) {
+        callbacks.onReasoning?.(json.delta)
+      } else if (json.type === 'response.output_item.done' && json.item?.type === 'function_call') {
+        // 完成事件中带有完整参数，不需要拼接 arguments 增量
+        toolCalls.push(toResponsesToolCall(json.item))
+      } else if ((json.type === 'response.completed' || json.type === 'response.incomplete') && json.response?.usage) {
+        callbacks.onUsage?.({
+          inputTokens: json.response.usage.input_tokens,
+          outputTokens: json.response.usage.output_tokens,
+          reasoningTokens: json.response.usage.output_tokens_details?.reasoning_tokens
+        })
+      } else if (json.type === 'response.failed' || json.type === 'error') {
+        throw new Error(`API Error: ${json.response?.error?.message || json.message || '请求失败'}`)
+      }
+    }
+  }
+
+  if (toolCalls.length > 0) {
+    callbacks.onToolCalls?.(toolCalls)
+  }
+}
+
+// Ollama 原生 /api/chat：NDJSON 流，每行一个 JSON 对象
+async function streamOllama(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: Message[],
+  callbacks: StreamCallbacks,
+  signal?: AbortSignal,
+  options: ChatOptions = {}
+): Promise<void> {
+  const url = `${baseUrl}/api/chat`
+  const { tools, toolChoice } = resolveTools(messages, options)
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...ollamaHeaders(apiKey)
+    },
+    body: JSON.stringify({
+      model,
+      messages: toOllamaMessages(messages),
+      options: toOllamaOptions(options.params),
+      think: toOllamaThink(options.params),
+      tools: toOllamaTools(tools, toolChoice),
+      stream: true
+    }),
+    signal
+  })
+
+  if (!response.ok) {
+    throw await toHttpError(response)
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body')
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  const toolCalls: ToolCall[] = []
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (!trimmed) continue
+
+      let json
+      try {
+        json = JSON.parse(trimmed)
+      } catch {
+        continue // 忽略解析错误
+      }
+
+      if (json.error) {
+        throw new Error(`API Error: ${json.error}`)
+      }
+      if (json.message?.thinking) {
+        callbacks.onReasoning?.(json.message.thinking)
+      }
+      if (json.message?.content) {
+        callbacks.onChunk(json.message.content)
+      }
+      for (const call of json.message?.tool_calls || []) {
+        toolCalls.push(toOllamaToolCall(call, toolCalls.length))
+      }
+      // 最后一行（done: true）携带 token 统计
+      if (json.done) {
+        callbacks.onUsage?.({
+          inputTokens: json.prompt_eval_count,
+          outputTokens: json.eval_count
+        })
       }
     }
   }
+
+  if (toolCalls.length > 0) {
+    callbacks.onToolCalls?.(toolCalls)
+  }
 }
 
 // Anthropic 协议
@@ -77,36 +765,36 @@ async function streamAnthropic(
   model: string,
   messages: Message[],
   callbacks: StreamCallbacks,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  options: ChatOptions = {}
 ): Promise<void> {
   const url = `${baseUrl}/v1/messages`
 
   // 转换消息格式：提取 system 消息
   const systemMsg = messages.find(m => m.role === 'system')
-  const chatMessages = messages
-    .filter(m => m.role !== 'system')
-    .map(m => ({ role: m.role, content: m.content }))
+  const chatMessages = toAnthropicMessages(messages)
+  const { tools, toolChoice } = resolveTools(messages, options)
 
   const response = await fetch(url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
+      ...anthropicHeaders(apiKey)
     },
     body: JSON.stringify({
       model,
-      max_tokens: 4096,
+      ...toAnthropicParams(options.params),
       system: systemMsg?.content,
       messages: chatMessages,
+      tools: tools.length ? toAnthropicTools(tools) : undefined,
+      tool_choice: tools.length ? { type: toolChoice } : undefined,
       stream: true
     }),
     signal
   })
 
   if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`API Error ${response.status}: ${errorText}`)
+    throw await toHttpError(response)
   }
 
   const reader = response.body?.getReader()
@@ -116,6 +804,8 @@ async function streamAnthropic(
 
   const decoder = new TextDecoder()
   let buffer = ''
+  // tool_use 块的参数以 input_json_delta 分片返回
+  const toolBlocks = new Map<number, ToolCall>()
 
   while (true) {
     const { done, value } = await reader.read()
@@ -133,12 +823,41 @@ async function streamAnthropic(
         const json = JSON.parse(trimmed.slice(6))
         if (json.type === 'content_block_delta' && json.delta?.text) {
           callbacks.onChunk(json.delta.text)
+        } else if (json.type === 'content_block_delta' && json.delta?.type === 'thinking_delta') {
+          callbacks.onReasoning?.(json.delta.thinking || '')
+        } else if (json.type === 'content_block_delta' && json.delta?.type === 'signature_delta') {
+          callbacks.onReasoningSignature?.(json.delta.signature)
+        } else if (json.type === 'content_block_start' && json.content_block?.type === 'tool_use') {
+          toolBlocks.set(json.index, {
+            id: json.content_block.id,
+            type: 'function',
+            function: { name: json.content_block.name, arguments: '' }
+          })
+        } else if (json.type === 'content_block_delta' && json.delta?.type === 'input_json_delta') {
+          const call = toolBlocks.get(json.index)
+          if (call) call.function.arguments += json.delta.partial_json || ''
+        } else if (json.type === 'message_start' && json.message?.usage) {
+          callbacks.onUsage?.({
+            inputTokens: json.message.usage.input_tokens,
+            outputTokens: json.message.usage.output_tokens
+          })
+        } else if (json.type === 'message_delta' && json.usage) {
+          // message_delta 中的 output_tokens 是累计值
+          callbacks.onUsage?.({ outputTokens: json.usage.output_tokens })
         }
       } catch {
         // 忽略解析错误
       }
     }
   }
+
+  const calls = [...toolBlocks.values()].map(call => ({
+    ...call,
+    function: { ...call.function, arguments: call.function.arguments || '{}' }
+  }))
+  if (calls.length > 0) {
+    callbacks.onToolCalls?.(calls)
+  }
 }
 
 // Gemini 协议
@@ -148,19 +867,16 @@ async function streamGemini(
   model: string,
   messages: Message[],
   callbacks: StreamCallbacks,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  options: ChatOptions = {}
 ): Promise<void> {
   const url = `${baseUrl}/v1beta/models/${model}:streamGenerateContent?key=${apiKey}&alt=sse`
 
   // 转换消息格式
-  const contents = messages
-    .filter(m => m.role !== 'system')
-    .map(m => ({
-      role: m.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: m.content }]
-    }))
+  const contents = toGeminiContents(messages)
 
   const systemInstruction = messages.find(m => m.role === 'system')
+  const { tools, toolChoice } = resolveTools(messages, options)
 
   const response = await fetch(url, {
     method: 'POST',
@@ -169,14 +885,16 @@ async function streamGemini(
     },
     body: JSON.stringify({
       contents,
-      systemInstruction: systemInstruction ? { parts: [{ text: systemInstruction.content }] } : undefined
+      systemInstruction: systemInstruction ? { parts: [{ text: systemInstruction.content }] } : undefined,
+      generationConfig: toGeminiConfig(options.params),
+      tools: tools.length ? toGeminiTools(tools) : undefined,
+      toolConfig: tools.length ? { functionCallingConfig: { mode: toolChoice === 'none' ? 'NONE' : 'AUTO' } } : undefined
     }),
     signal
   })
 
   if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`API Error ${response.status}: ${errorText}`)
+    throw await toHttpError(response)
   }
 
   const reader = response.body?.getReader()
@@ -186,6 +904,7 @@ async function streamGemini(
 
   const decoder = new TextDecoder()
   let buffer = ''
+  const toolCalls: ToolCall[] = []
 
   while (true) {
     const { done, value } = await reader.read()
@@ -201,15 +920,71 @@ async function streamGemini(
 
       try {
         const json = JSON.parse(trimmed.slice(6))
-        const text = json.candidates?.[0]?.content?.parts?.[0]?.text
-        if (text) {
-          callbacks.onChunk(text)
+        for (const part of json.candidates?.[0]?.content?.parts || []) {
+          if (part.text && part.thought) {
+            callbacks.onReasoning?.(part.text)
+          } else if (part.text) {
+            callbacks.onChunk(part.text)
+          } else if (part.functionCall) {
+            toolCalls.push(toGeminiToolCall(part, toolCalls.length))
+          }
+        }
+        // usageMetadata 为累计值，以最后一次为准；candidatesTokenCount 不含思考 token
+        if (json.usageMetadata) {
+          const thoughts = json.usageMetadata.thoughtsTokenCount
+          callbacks.onUsage?.({
+            inputTokens: json.usageMetadata.promptTokenCount,
+            outputTokens: (json.usageMetadata.candidatesTokenCount ?? 0) + (thoughts ?? 0),
+            reasoningTokens: thoughts
+          })
         }
       } catch {
         // 忽略解析错误
       }
     }
   }
+
+  if (toolCalls.length > 0) {
+    callbacks.onToolCalls?.(toolCalls)
+  }
+}
+
+// 合并用量更新（未返回的字段保留旧值）
+function mergeUsage(current: TokenUsage | undefined, update: TokenUsage): TokenUsage {
+  return {
+    inputTokens: update.inputTokens ?? current?.inputTokens,
+    outputTokens: update.outputTokens ?? current?.outputTokens,
+    reasoningTokens: update.reasoningTokens ?? current?.reasoningTokens
+  }
+}
+
+function buildMetrics(
+  startTime: number,
+  firstTokenTime: number | undefined,
+  endTime: number,
+  usage: TokenUsage | undefined,
+  reasoning?: { start: number; end?: number }
+): ResponseMetrics {
+  const metrics: ResponseMetrics = {
+    durationMs: Math.round(endTime - startTime),
+    usage
+  }
+  if (firstTokenTime !== undefined) {
+    metrics.firstTokenMs = Math.round(firstTokenTime - startTime)
+  }
+  if (reasoning) {
+    // 思考到回答开始为止，没有回答时到结束为止
+    metrics.reasoningMs = Math.round((reasoning.end ?? endTime) - reasoning.start)
+  }
+  // 输出 token 包含思考部分，输出速度从开始输出（思考或回答）算起
+  const outputStart = reasoning?.start ?? firstTokenTime
+  if (outputStart !== undefined) {
+    const generationSeconds = (endTime - outputStart) / 1000
+    if (usage?.outputTokens && generationSeconds > 0) {
+      metrics.tokensPerSecond = Math.round(usage.outputTokens / generationSeconds * 10) / 10
+    }
+  }
+  return metrics
 }
 
 // 统一入口
@@ -220,24 +995,69 @@ export async function streamChat(
   messages: Message[],
   callbacks: StreamCallbacks,
   signal?: AbortSignal,
-  protocol: ApiProtocol = 'openai'
+  protocol: ApiProtocol = 'openai',
+  options: ChatOptions = {}
 ): Promise<void> {
+  // 记录耗时和用量
+  const startTime = performance.now()
+  let firstTokenTime: number | undefined
+  let reasoning: { start: number; end?: number } | undefined
+  let usage: TokenUsage | undefined
+
+  const tracked: StreamCallbacks = {
+    ...callbacks,
+    onChunk: (chunk) => {
+      if (firstTokenTime === undefined) {
+        firstTokenTime = performance.now()
+        if (reasoning) reasoning.end = firstTokenTime
+      }
+      callbacks.onChunk(chunk)
+    },
+    onReasoning: (chunk) => {
+      if (!chunk) return
+      if (!reasoning) reasoning = { start: performance.now() }
+      callbacks.onReasoning?.(chunk)
+    },
+    onUsage: (update) => {
+      usage = mergeUsage(usage, update)
+      callbacks.onUsage?.(usage)
+    }
+  }
+
+  const reportMetrics = () => {
+    callbacks.onMetrics?.(buildMetrics(startTime, firstTokenTime, performance.now(), usage, reasoning))
+  }
+
   try {
-    switch (protocol) {
-      case 'anthropic':
-        await streamAnthropic(baseUrl, apiKey, model, messages, callbacks, signal)
-        break
-      case 'gemini':
-        await streamGemini(baseUrl, apiKey, model, messages, callbacks, signal)
-        break
-      case 'openai':
-      default:
-        await streamOpenAI(baseUrl, apiKey, model, messages, callbacks, signal)
-        break
+    if (isCustomProtocol(protocol)) {
+      if (!options.customProtocol) throw new Error('自定义协议不存在，请在设置中检查模型的协议')
+      await streamCustom(options.customProtocol, baseUrl, apiKey, model, messages, tracked, signal, options)
+    } else {
+      switch (protocol) {
+        case 'anthropic':
+          await streamAnthropic(baseUrl, apiKey, model, messages, tracked, signal, options)
+          break
+        case 'gemini':
+          await streamGemini(baseUrl, apiKey, model, messages, tracked, signal, options)
+          break
+        case 'openai-responses':
+          await streamResponses(baseUrl, apiKey, model, messages, tracked, signal, options)
+          break
+        case 'ollama':
+          await streamOllama(baseUrl, apiKey, model, messages, tracked, signal, options)
+          break
+        case 'openai':
+        case 'azure':
+        default:
+          await streamOpenAI(chatCompletionsEndpoint(protocol, baseUrl, apiKey, model), model, messages, tracked, signal, options)
+          break
+      }
     }
+    reportMetrics()
     callbacks.onDone()
   } catch (error) {
     if (error instanceof Error && error.name === 'AbortError') {
+      reportMetrics()
       callbacks.onDone()
     } else {
       callbacks.onError(error instanceof Error ? error : new Error(String(error)))
@@ -245,76 +1065,266 @@ export async function streamChat(
   }
 }
 
+// 目标的 Key：所选的 Key 在前，之后是备用 Key
+function targetKeys(target: ChatTarget): TargetKey[] {
+  return [
+    { id: target.keyId ?? '', name: target.keyName ?? 'API Key', apiKey: target.apiKey, maxConcurrency: target.maxConcurrency },
+    ...(target.fallbackKeys || [])
+  ]
+}
+
+// 按目标流式请求：尚未输出内容时失败会按退避重试，重试用尽后切换到下一个 Key；
+// 每个 Key 的并发请求数受 maxConcurrency 限制
+export async function streamTarget(
+  target: ChatTarget,
+  messages: Message[],
+  callbacks: StreamCallbacks,
+  signal?: AbortSignal,
+  options: ChatOptions = {}
+): Promise<void> {
+  const keys = targetKeys(target)
+  const maxRetries = target.maxRetries ?? DEFAULT_MAX_RETRIES
+  let failures = 0
+
+  for (const [index, key] of keys.entries()) {
+    const hasNextKey = index < keys.length - 1
+    for (let retry = 0; ; retry++) {
+      let release: () => void
+      try {
+        release = await acquireKeySlot(key.id, key.maxConcurrency, signal)
+      } catch {
+        callbacks.onDone()  // 排队时被中止
+        return
+      }
+
+      let started = false
+      const error = await new Promise<Error | null>((resolve) => {
+        streamChat(
+          target.baseUrl,
+          key.apiKey,
+          target.model,
+          messages,
+          {
+            ...callbacks,
+            onChunk: (chunk) => {
+              started = true
+              callbacks.onChunk(chunk)
+            },
+            onReasoning: (chunk) => {
+              started = true
+              callbacks.onReasoning?.(chunk)
+            },
+            onMetrics: (metrics) => callbacks.onMetrics?.(key.id ? { ...metrics, keyId: key.id } : metrics),
+            onDone: () => resolve(null),
+            onError: resolve
+          },
+          signal,
+          target.protocol,
+          options
+        )
+      }).finally(release)
+
+      if (!error) {
+        callbacks.onDone()
+        return
+      }
+
+      const attempt: RequestAttempt = {
+        keyName: key.name,
+        status: error instanceof HttpError ? error.status : undefined,
+        error: error.message,
+        action: 'fail'
+      }
+      // 已经输出了部分内容时不再重试，避免重复
+      if (!started && isRetryable(error) && retry < maxRetries) {
+        attempt.action = 'retry'
+        attempt.delayMs = Math.round(retryDelay(retry, error))
+      } else if (!started && (isRetryable(error) || isKeyError(error)) && hasNextKey) {
+        attempt.action = 'failover'
+      }
+      failures++
+
+      if (attempt.action === 'fail') {
+        // 一次就失败时错误信息已足够，不单独记录
+        if (failures > 1) callbacks.onAttempt?.(attempt)
+        callbacks.onError(error)
+        return
+      }
+      callbacks.onAttempt?.(attempt)
+      if (attempt.action === 'failover') break
+
+      try {
+        await sleep(attempt.delayMs!, signal)
+      } catch {
+        callbacks.onDone()
+        return
+      }
+    }
+  }
+}
+
+// 非交互场景（评审、批量评测）：流式调用并返回完整输出
+export function completeChat(
+  target: ChatTarget,
+  messages: Message[],
+  signal?: AbortSignal
+): Promise<{ content: string; metrics?: ResponseMetrics }> {
+  return new Promise((resolve, reject) => {
+    let content = ''
+    let metrics: ResponseMetrics | undefined
+    streamTarget(
+      target,
+      messages,
+      {
+        onChunk: (chunk) => { content += chunk },
+        onMetrics: (m) => { metrics = m },
+        onDone: () => resolve({ content, metrics }),
+        onError: reject
+      },
+      signal,
+      { params: target.params, customProtocol: target.customProtocol }
+    )
+  })
+}
+
 // Tool 定义
 export interface Tool {
   type: 'function'
   function: {
     name: string
     description: string
-    parameters: {
-      type: 'object'
-      properties: Record<string, { type: string; description: string }>
-      required?: string[]
-    }
+    parameters: ToolParameters
   }
 }
 
-// Tool Call 结果
-export interface ToolCall {
-  id: string
-  type: 'function'
-  function: {
-    name: string
-    arguments: string
-  }
+// 支持 Tool Use 的协议
+const TOOL_PROTOCOLS: ApiProtocol[] = ['openai', 'openai-responses', 'azure', 'anthropic', 'gemini', 'ollama']
+
+// 协议是否支持 Tool Use
+export function supportsTools(protocol: ApiProtocol): boolean {
+  return TOOL_PROTOCOLS.includes(protocol)
 }
 
-// 搜索工具定义
-export const searchTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'web_search',
-    description: '搜索互联网获取最新信息。当用户询问时事、新闻、最新数据、或你不确定的事实性问题时使用此工具。',
-    parameters: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: '搜索关键词，应该简洁精准，提取用户问题的核心关键词'
-        }
-      },
-      required: ['query']
-    }
-  }
+// 非流式 Tool Use 的结果，usage 为服务商返回的 token 用量
+export interface ToolChatResult {
+  content: string | null
+  toolCalls: ToolCall[] | null
+  usage?: TokenUsage
 }
 
-// 非流式调用（用于 Tool Use 判断）
+// 非流式调用（用于 Tool Use 判断），调用前应先用 supportsTools 判断协议（自定义协议不支持）
 export async function chatWithTools(
   baseUrl: string,
   apiKey: string,
   model: string,
   messages: Message[],
   tools: Tool[],
-  protocol: ApiProtocol = 'openai'
-): Promise<{ content: string | null; toolCalls: ToolCall[] | null }> {
-  if (protocol === 'openai') {
-    return chatWithToolsOpenAI(baseUrl, apiKey, model, messages, tools)
+  protocol: ApiProtocol = 'openai',
+  options: ChatOptions = {}
+): Promise<ToolChatResult> {
+  if (protocol === 'openai' || protocol === 'azure') {
+    return chatWithToolsOpenAI(chatCompletionsEndpoint(protocol, baseUrl, apiKey, model), model, messages, tools, options)
+  } else if (protocol === 'openai-responses') {
+    return chatWithToolsResponses(baseUrl, apiKey, model, messages, tools, options)
+  } else if (protocol === 'ollama') {
+    return chatWithToolsOllama(baseUrl, apiKey, model, messages, tools, options)
   } else if (protocol === 'anthropic') {
-    return chatWithToolsAnthropic(baseUrl, apiKey, model, messages, tools)
+    return chatWithToolsAnthropic(baseUrl, apiKey, model, messages, tools, options)
+  } else if (protocol === 'gemini') {
+    return chatWithToolsGemini(baseUrl, apiKey, model, messages, tools, options)
   }
-  // Gemini 暂不支持，返回空
-  return { content: null, toolCalls: null }
+  throw new Error(`协议 ${protocol} 不支持工具调用`)
 }
 
-// OpenAI Tool Use
+// 按目标的非流式 Tool Use：与 streamTarget 相同，失败时按退避重试、重试用尽后切换到下一个 Key，并受每个 Key 的并发限制；
+// keyId 为实际处理请求的 Key
+export async function chatWithToolsTarget(
+  target: ChatTarget,
+  messages: Message[],
+  tools: Tool[],
+  signal?: AbortSignal
+): Promise<ToolChatResult & { keyId?: string }> {
+  const keys = targetKeys(target)
+  const maxRetries = target.maxRetries ?? DEFAULT_MAX_RETRIES
+
+  for (const [index, key] of keys.entries()) {
+    for (let retry = 0; ; retry++) {
+      const release = await acquireKeySlot(key.id, key.maxConcurrency, signal)
+      let error: unknown
+      try {
+        const result = await chatWithTools(
+          target.baseUrl, key.apiKey, target.model, messages, tools, target.protocol, { params: target.params }
+        )
+        return { ...result, keyId: key.id || undefined }
+      } catch (e) {
+        error = e
+      } finally {
+        release()
+      }
+
+      if (isRetryable(error) && retry < maxRetries) {
+        await sleep(retryDelay(retry, error), signal)
+        continue
+      }
+      if ((isRetryable(error) || isKeyError(error)) && index < keys.length - 1) break
+      throw error
+    }
+  }
+  throw new Error('没有可用的 API Key')
+}
+
+// OpenAI Tool Use（Azure OpenAI 共用）
 async function chatWithToolsOpenAI(
+  endpoint: Endpoint,
+  model: string,
+  messages: Message[],
+  tools: Tool[],
+  options: ChatOptions = {}
+): Promise<ToolChatResult> {
+  const response = await fetch(endpoint.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...endpoint.headers
+    },
+    body: JSON.stringify({
+      model,
+      messages: toOpenAIMessages(messages),
+      ...toOpenAIParams(options.params),
+      tools,
+      tool_choice: 'auto'
+    })
+  })
+
+  if (!response.ok) {
+    throw await toHttpError(response)
+  }
+
+  const data = await response.json()
+  const choice = data.choices?.[0]?.message
+
+  return {
+    content: choice?.content || null,
+    toolCalls: choice?.tool_calls || null,
+    usage: data.usage && {
+      inputTokens: data.usage.prompt_tokens,
+      outputTokens: data.usage.completion_tokens,
+      reasoningTokens: data.usage.completion_tokens_details?.reasoning_tokens
+    }
+  }
+}
+
+// OpenAI Responses API Tool Use
+async function chatWithToolsResponses(
   baseUrl: string,
   apiKey: string,
   model: string,
   messages: Message[],
-  tools: Tool[]
-): Promise<{ content: string | null; toolCalls: ToolCall[] | null }> {
-  const url = `${baseUrl}/chat/completions`
+  tools: Tool[],
+  options: ChatOptions = {}
+): Promise<ToolChatResult> {
+  const url = `${baseUrl}/responses`
+  const systemMsg = messages.find(m => m.role === 'system')
 
   const response = await fetch(url, {
     method: 'POST',
@@ -324,23 +1334,81 @@ async function chatWithToolsOpenAI(
     },
     body: JSON.stringify({
       model,
-      messages,
-      tools,
+      instructions: systemMsg?.content,
+      input: toResponsesInput(messages),
+      ...toResponsesParams(options.params),
+      tools: toResponsesTools(tools),
       tool_choice: 'auto'
     })
   })
 
   if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`API Error ${response.status}: ${errorText}`)
+    throw await toHttpError(response)
   }
 
   const data = await response.json()
-  const choice = data.choices?.[0]?.message
+
+  // 解析 output：message 中的 output_text 和 function_call
+  let content: string | null = null
+  let toolCalls: ToolCall[] | null = null
+
+  for (const item of data.output || []) {
+    if (item.type === 'message') {
+      for (const part of item.content || []) {
+        if (part.type === 'output_text') content = (content || '') + part.text
+      }
+    } else if (item.type === 'function_call') {
+      if (!toolCalls) toolCalls = []
+      toolCalls.push(toResponsesToolCall(item))
+    }
+  }
+
+  const usage = data.usage && {
+    inputTokens: data.usage.input_tokens,
+    outputTokens: data.usage.output_tokens,
+    reasoningTokens: data.usage.output_tokens_details?.reasoning_tokens
+  }
+  return { content, toolCalls, usage }
+}
+
+// Ollama Tool Use
+async function chatWithToolsOllama(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: Message[],
+  tools: Tool[],
+  options: ChatOptions = {}
+): Promise<ToolChatResult> {
+  const url = `${baseUrl}/api/chat`
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...ollamaHeaders(apiKey)
+    },
+    body: JSON.stringify({
+      model,
+      messages: toOllamaMessages(messages),
+      options: toOllamaOptions(options.params),
+      think: toOllamaThink(options.params),
+      tools,
+      stream: false
+    })
+  })
+
+  if (!response.ok) {
+    throw await toHttpError(response)
+  }
+
+  const data = await response.json()
+  const calls: OllamaToolCall[] = data.message?.tool_calls || []
 
   return {
-    content: choice?.content || null,
-    toolCalls: choice?.tool_calls || null
+    content: data.message?.content || null,
+    toolCalls: calls.length ? calls.map(toOllamaToolCall) : null,
+    usage: { inputTokens: data.prompt_eval_count, outputTokens: data.eval_count }
   }
 }
 
@@ -350,42 +1418,32 @@ async function chatWithToolsAnthropic(
   apiKey: string,
   model: string,
   messages: Message[],
-  tools: Tool[]
-): Promise<{ content: string | null; toolCalls: ToolCall[] | null }> {
+  tools: Tool[],
+  options: ChatOptions = {}
+): Promise<ToolChatResult> {
   const url = `${baseUrl}/v1/messages`
 
-  // 转换 tools 格式为 Anthropic 格式
-  const anthropicTools = tools.map(t => ({
-    name: t.function.name,
-    description: t.function.description,
-    input_schema: t.function.parameters
-  }))
-
   // 转换消息格式
   const systemMsg = messages.find(m => m.role === 'system')
-  const chatMessages = messages
-    .filter(m => m.role !== 'system')
-    .map(m => ({ role: m.role, content: m.content }))
+  const chatMessages = toAnthropicMessages(messages)
 
   const response = await fetch(url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
+      ...anthropicHeaders(apiKey)
     },
     body: JSON.stringify({
       model,
-      max_tokens: 1024,
+      ...toAnthropicParams(options.params),
       system: systemMsg?.content,
       messages: chatMessages,
-      tools: anthropicTools
+      tools: toAnthropicTools(tools)
     })
   })
 
   if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`API Error ${response.status}: ${errorText}`)
+    throw await toHttpError(response)
   }
 
   const data = await response.json()
@@ -410,29 +1468,150 @@ async function chatWithToolsAnthropic(
     }
   }
 
-  return { content, toolCalls }
+  const usage = data.usage && { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+  return { content, toolCalls, usage }
 }
 
-// 非流式请求（用于获取模型列表等）
-export async function fetchModels(baseUrl: string, apiKey: string): Promise<string[]> {
-  const url = `${baseUrl}/models`
+// Gemini Function Calling
+async function chatWithToolsGemini(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: Message[],
+  tools: Tool[],
+  options: ChatOptions = {}
+): Promise<ToolChatResult> {
+  const url = `${baseUrl}/v1beta/models/${model}:generateContent?key=${apiKey}`
 
-  try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`
-      }
+  const systemInstruction = messages.find(m => m.role === 'system')
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      contents: toGeminiContents(messages),
+      systemInstruction: systemInstruction ? { parts: [{ text: systemInstruction.content }] } : undefined,
+      generationConfig: toGeminiConfig(options.params),
+      tools: toGeminiTools(tools),
+      toolConfig: { functionCallingConfig: { mode: 'AUTO' } }
     })
+  })
+
+  if (!response.ok) {
+    throw await toHttpError(response)
+  }
+
+  const data = await response.json()
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch models: ${response.status}`)
+  // 解析 Gemini 响应：text 和 functionCall 都在 parts 中
+  let content: string | null = null
+  let toolCalls: ToolCall[] | null = null
+
+  const parts: GeminiPart[] = data.candidates?.[0]?.content?.parts || []
+  parts.forEach((part, index) => {
+    if (part.text && !part.thought) {
+      content = (content || '') + part.text
+    } else if (part.functionCall) {
+      if (!toolCalls) toolCalls = []
+      toolCalls.push(toGeminiToolCall(part, index))
+    }
+  })
+
+  // candidatesTokenCount 不含思考 token
+  const thoughts = data.usageMetadata?.thoughtsTokenCount
+  const usage = data.usageMetadata && {
+    inputTokens: data.usageMetadata.promptTokenCount,
+    outputTokens: (data.usageMetadata.candidatesTokenCount ?? 0) + (thoughts ?? 0),
+    reasoningTokens: thoughts
+  }
+  return { content, toolCalls, usage }
+}
+
+// 自动获取到的模型，capabilities 为服务商返回的能力信息
+export interface DiscoveredModel {
+  name: string
+  capabilities?: ModelCapabilities
+}
+
+// 非流式请求（用于获取模型列表等）
+export async function fetchModels(baseUrl: string, apiKey: string, protocol: ApiProtocol = 'openai'): Promise<DiscoveredModel[]> {
+  // 自定义协议不支持获取模型列表
+  if (isCustomProtocol(protocol)) return []
+
+  try {
+    if (protocol === 'ollama') {
+      const data = await getJson({ url: `${baseUrl}/api/tags`, headers: ollamaHeaders(apiKey) })
+      return data.models?.map((m: { name: string }) => ({ name: m.name })) || []
     }
+    if (protocol === 'anthropic') return await fetchAnthropicModels(baseUrl, apiKey)
+    if (protocol === 'gemini') return await fetchGeminiModels(baseUrl, apiKey)
 
-    const data = await response.json()
-    return data.data?.map((m: { id: string }) => m.id) || []
+    // Azure 返回的是部署名，请求时用部署名作为模型名
+    const endpoint = protocol === 'azure'
+      ? azureEndpoint(baseUrl, apiKey, '/deployments', AZURE_DEPLOYMENTS_API_VERSION)
+      : openAIEndpoint(baseUrl, apiKey, '/models')
+    const data = await getJson(endpoint)
+    return data.data?.map((m: { id: string }) => ({ name: m.id })) || []
   } catch (error) {
     console.error('Failed to fetch models:', error)
     return []
   }
 }
+
+// Anthropic 的模型列表只有 ID 和显示名称，能力按模型名推断；按 after_id 分页
+async function fetchAnthropicModels(baseUrl: string, apiKey: string): Promise<DiscoveredModel[]> {
+  const models: DiscoveredModel[] = []
+  let afterId: string | undefined
+  do {
+    const query = new URLSearchParams({ limit: '1000' })
+    if (afterId) query.set('after_id', afterId)
+    const data = await getJson({ url: `${baseUrl}/v1/models?${query}`, headers: anthropicHeaders(apiKey) })
+    models.push(...(data.data || []).map((m: { id: string }) => ({ name: m.id })))
+    afterId = data.has_more ? data.last_id : undefined
+  } while (afterId)
+  return models
+}
+
+interface GeminiModelInfo {
+  name: string                          // models/gemini-2.5-pro
+  inputTokenLimit?: number
+  outputTokenLimit?: number
+  supportedGenerationMethods?: string[]
+  thinking?: boolean
+}
+
+// Gemini 返回上下文长度、最大输出和是否支持思考；只保留可用于对话（generateContent）的模型，按 pageToken 分页
+async function fetchGeminiModels(baseUrl: string, apiKey: string): Promise<DiscoveredModel[]> {
+  const models: DiscoveredModel[] = []
+  let pageToken: string | undefined
+  do {
+    const query = new URLSearchParams({ key: apiKey, pageSize: '1000' })
+    if (pageToken) query.set('pageToken', pageToken)
+    const data = await getJson({ url: `${baseUrl}/v1beta/models?${query}`, headers: {} })
+    for (const m of (data.models || []) as GeminiModelInfo[]) {
+      if (!m.supportedGenerationMethods?.includes('generateContent')) continue
+      const capabilities: ModelCapabilities = {}
+      if (m.inputTokenLimit) capabilities.contextWindow = m.inputTokenLimit
+      if (m.outputTokenLimit) capabilities.maxOutputTokens = m.outputTokenLimit
+      if (m.thinking !== undefined) capabilities.reasoning = m.thinking
+      models.push({ name: m.name.replace(/^models\//, ''), capabilities })
+    }
+    pageToken = data.nextPageToken || undefined
+  } while (pageToken)
+  return models
+}
+
+async function getJson(endpoint: Endpoint) {
+  const response = await fetch(endpoint.url, {
+    method: 'GET',
+    headers: endpoint.headers
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch models: ${response.status}`)
+  }
+
+  return response.json()
+}
@@ -0,0 +1,54 @@
+// 消息附件：读取图片 / PDF 文件，判断模型是否支持多模态输入
+import type { Attachment, Model } from '../types/config'
+
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+const PDF_TYPE = 'application/pdf'
+
+// 常见支持图像输入的模型名（未在设置中显式指定时使用）
+const VISION_MODEL_PATTERNS = [
+  /gpt-4o/, /gpt-4\.1/, /gpt-4-turbo/, /gpt-4-vision/, /gpt-5/, /\bo[134](-|$)/,
+  /claude-3/, /claude-.*-4/,
+  /gemini/, /gemma-3/,
+  /vision/, /-vl\b/, /vl-/, /qwen.*vl/, /glm-4v/, /glm-4\.\dv/, /llava/, /pixtral/, /minicpm-v/, /internvl/
+]
+
+export function isSupportedFile(file: File): boolean {
+  return IMAGE_TYPES.includes(file.type) || file.type === PDF_TYPE
+}
+
+// 读取文件为附件
+export function readAttachment(file: File): Promise<Attachment> {
+  if (!isSupportedFile(file)) {
+    return Promise.reject(new Error(`不支持的文件类型：${file.name}`))
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return Promise.reject(new Error(`文件过大（超过 ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB）：${file.name}`))
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const dataUrl = reader.result as string
+      resolve({
+        type: file.type === PDF_TYPE ? 'pdf' : 'image',
+        name: file.name || 'image',
+        mimeType: file.type,
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1)
+      })
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+export function attachmentUrl(attachment: Attachment): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`
+}
+
+// 模型是否支持图像 / PDF 输入：优先使用设置中的值，否则按模型名推断
+export function supportsVision(model: Pick<Model, 'name' | 'capabilities'>): boolean {
+  if (model.capabilities?.vision !== undefined) return model.capabilities.vision
+  const name = model.name.toLowerCase()
+  return VISION_MODEL_PATTERNS.some(p => p.test(name))
+}
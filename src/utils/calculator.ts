@@ -0,0 +1,165 @@
+// 安全的数学表达式求值（递归下降解析，不使用 eval）
+//
+// 支持：+ - * / % ^（** 同 ^），括号，常量 pi / e，
+// 函数 sqrt cbrt abs round floor ceil exp ln log log2 log10 sin cos tan asin acos atan min max pow
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string }
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  log10: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/iy
+  let pos = 0
+  while (pos < expression.length) {
+    if (!expression.slice(pos).trim()) break
+    pattern.lastIndex = pos
+    const match = pattern.exec(expression)
+    if (!match) {
+      throw new Error(`无法识别的字符：${expression.slice(pos).trim()[0]}`)
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', value: parseFloat(match[1]) })
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'name', value: match[2].toLowerCase() })
+    } else {
+      tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3]! })
+    }
+    pos = pattern.lastIndex
+  }
+  return tokens
+}
+
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression)
+  let index = 0
+
+  const peek = () => tokens[index]
+  const isOp = (value: string) => {
+    const token = peek()
+    return token?.type === 'op' && token.value === value
+  }
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`缺少 “${value}”`)
+    index++
+  }
+
+  // expr := term (('+' | '-') term)*
+  function parseExpression(): number {
+    let value = parseTerm()
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[index++]!.value
+      const right = parseTerm()
+      value = op === '+' ? value + right : value - right
+    }
+    return value
+  }
+
+  // term := unary (('*' | '/' | '%') unary)*
+  function parseTerm(): number {
+    let value = parseUnary()
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[index++]!.value
+      const right = parseUnary()
+      if (op === '*') value *= right
+      else if (op === '/') value /= right
+      else value %= right
+    }
+    return value
+  }
+
+  // unary := ('+' | '-') unary | power，-2^2 = -4
+  function parseUnary(): number {
+    if (isOp('-')) {
+      index++
+      return -parseUnary()
+    }
+    if (isOp('+')) {
+      index++
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  // power := primary ('^' unary)?  右结合
+  function parsePower(): number {
+    const base = parsePrimary()
+    if (isOp('^')) {
+      index++
+      return Math.pow(base, parseUnary())
+    }
+    return base
+  }
+
+  function parsePrimary(): number {
+    const token = tokens[index++]
+    if (!token) throw new Error('表达式不完整')
+
+    if (token.type === 'number') return token.value
+
+    if (token.type === 'op' && token.value === '(') {
+      const value = parseExpression()
+      expect(')')
+      return value
+    }
+
+    if (token.type === 'name') {
+      if (isOp('(')) {
+        const fn = FUNCTIONS[token.value]
+        if (!fn) throw new Error(`未知函数：${token.value}`)
+        index++
+        const args: number[] = []
+        if (!isOp(')')) {
+          args.push(parseExpression())
+          while (isOp(',')) {
+            index++
+            args.push(parseExpression())
+          }
+        }
+        expect(')')
+        return fn(...args)
+      }
+      const constant = CONSTANTS[token.value]
+      if (constant === undefined) throw new Error(`未知常量：${token.value}`)
+      return constant
+    }
+
+    throw new Error(`意外的符号：${token.value}`)
+  }
+
+  if (tokens.length === 0) throw new Error('表达式为空')
+  const result = parseExpression()
+  if (index < tokens.length) {
+    throw new Error(`意外的符号：${tokens[index]!.value}`)
+  }
+  return result
+}
@@ -0,0 +1,65 @@
+// 模型能力：优先使用设置中的值（自动获取时由服务商返回或手动标记），否则按模型名和协议推断
+import { supportsTools } from './api'
+import { supportsVision } from './attachments'
+import type { Model } from '../types/config'
+
+// 可在模型选择中筛选的能力
+export type CapabilityFlag = 'vision' | 'tools' | 'reasoning'
+
+export const CAPABILITY_LABELS: Record<CapabilityFlag, string> = {
+  vision: '图片 / PDF 输入',
+  tools: '工具调用',
+  reasoning: '思考 / 推理'
+}
+
+export const CAPABILITY_ICONS: Record<CapabilityFlag, string> = {
+  vision: '👁',
+  tools: '🔧',
+  reasoning: '💭'
+}
+
+export interface ResolvedCapabilities {
+  vision: boolean
+  tools: boolean
+  reasoning: boolean
+  contextWindow?: number
+  maxOutputTokens?: number
+}
+
+// 常见支持思考 / 推理的模型名（未在设置中显式指定时使用）
+const REASONING_MODEL_PATTERNS = [
+  /\bo[134](-|$)/, /gpt-5/, /gpt-oss/,
+  /claude-3-7/, /claude-.*-4/,
+  /gemini-2\.5/, /gemini-3/,
+  /deepseek-r1/, /deepseek-reasoner/, /qwq/, /qwen3/, /thinking/, /reason/, /grok-3-mini/, /grok-4/, /magistral/
+]
+
+export function supportsReasoning(model: Pick<Model, 'name' | 'capabilities'>): boolean {
+  if (model.capabilities?.reasoning !== undefined) return model.capabilities.reasoning
+  const name = model.name.toLowerCase()
+  return REASONING_MODEL_PATTERNS.some(p => p.test(name))
+}
+
+// 协议不支持工具调用时，模型能力无法单独开启
+export function resolveCapabilities(model: Pick<Model, 'name' | 'protocol' | 'capabilities'>): ResolvedCapabilities {
+  return {
+    vision: supportsVision(model),
+    tools: supportsTools(model.protocol || 'openai') && (model.capabilities?.tools ?? true),
+    reasoning: supportsReasoning(model),
+    contextWindow: model.capabilities?.contextWindow,
+    maxOutputTokens: model.capabilities?.maxOutputTokens
+  }
+}
+
+// 能力是否来自设置（而不是推断）
+export function isCapabilitySet(model: Pick<Model, 'capabilities'>, flag: CapabilityFlag): boolean {
+  return model.capabilities?.[flag] !== undefined
+}
+
+// token 数量的简短表示，如 128K、1M（2 的幂按二进制单位，如 65536 为 64K）
+export function formatTokenCount(tokens: number): string {
+  const unit = Number.isInteger(Math.log2(tokens)) ? 1024 : 1000
+  if (tokens >= unit * unit) return `${+(tokens / unit / unit).toFixed(1)}M`
+  if (tokens >= unit) return `${+(tokens / unit).toFixed(1)}K`
+  return String(tokens)
+}
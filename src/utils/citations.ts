@@ -0,0 +1,93 @@
+// 引用：搜索结果编号为来源，回答中的 [n] 标记链接到对应来源
+import type { SearchResult } from '../types/config'
+
+// 匹配 [1]、[1, 2]，排除 Markdown 链接 [1](url)
+const CITATION_PATTERN = /\[(\d{1,3}(?:\s*[,，、]\s*\d{1,3})*)\](?!\()/g
+
+// 不处理这些元素内的文本
+const SKIP_TAGS = ['code', 'pre', 'a']
+
+// 将结果加入来源列表（按 URL 去重），返回各结果的引用编号
+export function addSources(sources: SearchResult[], results: SearchResult[]): number[] {
+  return results.map(result => {
+    const index = sources.findIndex(s => s.url === result.url)
+    if (index !== -1) return index + 1
+    sources.push(result)
+    return sources.length
+  })
+}
+
+function parseNumbers(group: string): number[] {
+  return group.split(/[,，、]/).map(n => parseInt(n.trim(), 10))
+}
+
+// 回答中引用的编号（按出现顺序去重，忽略代码中的内容）
+export function extractCitations(content: string): number[] {
+  const text = content.replace(/```[\s\S]*?(```|$)/g, '').replace(/`[^`\n]*`/g, '')
+  const numbers = new Set<number>()
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    parseNumbers(match[1]!).forEach(n => numbers.add(n))
+  }
+  return [...numbers]
+}
+
+// 没有对应来源的引用编号（可能是模型编造的引用）
+export function findInvalidCitations(content: string, sources: SearchResult[]): number[] {
+  return extractCitations(content).filter(n => n < 1 || n > sources.length)
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// 只允许 http(s) 链接，来源 URL 来自搜索结果和模型输出，可能是 javascript: 等
+export function safeHref(url: string): string | undefined {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:' ? url : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function renderCitation(n: number, sources: SearchResult[]): string {
+  const source = sources[n - 1]
+  if (!source) {
+    return `<span class="citation invalid" title="不存在编号为 ${n} 的来源">${n}</span>`
+  }
+  if (!safeHref(source.url)) {
+    return `<span class="citation" data-citation="${n}">${n}</span>`
+  }
+  return `<a class="citation" data-citation="${n}" href="${escapeHtml(source.url)}" target="_blank" rel="noopener noreferrer">${n}</a>`
+}
+
+// 在渲染后的 HTML 中将 [n] 替换为引用链接，跳过 code / pre / a 中的文本
+export function linkCitations(html: string, sources: SearchResult[]): string {
+  let skipDepth = 0
+  return html.split(/(<[^>]+>)/).map(part => {
+    const tag = part.match(/^<(\/?)([a-z0-9]+)/i)
+    if (tag) {
+      if (SKIP_TAGS.includes(tag[2]!.toLowerCase())) {
+        skipDepth = Math.max(0, skipDepth + (tag[1] ? -1 : 1))
+      }
+      return part
+    }
+    if (skipDepth > 0) return part
+    return part.replace(CITATION_PATTERN, (_, group: string) =>
+      parseNumbers(group).map(n => renderCitation(n, sources)).join('')
+    )
+  }).join('')
+}
+
+// 来源的域名，用于来源列表显示
+export function sourceHost(source: SearchResult): string {
+  try {
+    return new URL(source.url).hostname.replace(/^www\./, '')
+  } catch {
+    return source.url
+  }
+}
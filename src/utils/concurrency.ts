@@ -0,0 +1,19 @@
+// 并发控制
+
+// 以固定并发处理任务列表，shouldContinue 返回 false 时不再启动新任务（进行中的任务会完成）
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  shouldContinue: () => boolean = () => true
+): Promise<void> {
+  let index = 0
+  const next = async () => {
+    while (index < items.length && shouldContinue()) {
+      const item = items[index++]!
+      await worker(item)
+    }
+  }
+  const workers = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: workers }, next))
+}
@@ -0,0 +1,271 @@
+// 合并导入：对比导入的配置和当前配置，列出新增、更新和冲突，按所选变更合并
+import type { AppConfig, Provider, ApiKey, Model, SearchService, PromptPreset } from '../types/config'
+
+export interface ConfigChange {
+  id: string   // 变更标识（由导入配置中的 ID 组成），用于选择要应用的变更
+  kind: 'provider' | 'apiKey' | 'model' | 'searchService' | 'prompt'
+  action: 'add' | 'update' | 'conflict'
+  label: string
+  details: string[]
+}
+
+export type MergedConfig = Pick<AppConfig, 'providers' | 'searchServices' | 'customProtocols' | 'prompts'>
+
+const KIND_LABELS: Record<ConfigChange['kind'], string> = {
+  provider: '服务商',
+  apiKey: 'Key',
+  model: '模型',
+  searchService: '搜索服务',
+  prompt: '提示词'
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: '名称',
+  baseUrl: 'Base URL',
+  key: 'Key',
+  maxConcurrency: '并发上限',
+  enabled: '启用',
+  protocol: '协议',
+  defaultParams: '默认参数',
+  inputPrice: '输入价格',
+  outputPrice: '输出价格',
+  capabilities: '能力',
+  type: '类型',
+  apiKey: 'API Key',
+  username: '用户名',
+  proxyApiKey: '代理 Key',
+  content: '内容'
+}
+
+// 每类条目比较的字段；conflict 为双方都有值且不同时视为冲突的字段，secret 不显示具体值
+interface FieldSet<T> {
+  fields: (keyof T & string)[]
+  conflict: (keyof T & string)[]
+  secret: (keyof T & string)[]
+}
+
+const PROVIDER_FIELDS: FieldSet<Provider> = {
+  fields: ['name', 'baseUrl'],
+  conflict: ['baseUrl'],
+  secret: []
+}
+
+const API_KEY_FIELDS: FieldSet<ApiKey> = {
+  fields: ['name', 'key', 'maxConcurrency'],
+  conflict: ['key'],
+  secret: ['key']
+}
+
+const MODEL_FIELDS: FieldSet<Model> = {
+  fields: ['name', 'enabled', 'protocol', 'defaultParams', 'inputPrice', 'outputPrice', 'capabilities'],
+  conflict: ['protocol'],
+  secret: []
+}
+
+const SEARCH_SERVICE_FIELDS: FieldSet<SearchService> = {
+  fields: ['name', 'type', 'apiKey', 'baseUrl', 'username', 'proxyApiKey', 'enabled'],
+  conflict: ['type', 'baseUrl', 'apiKey'],
+  secret: ['apiKey', 'proxyApiKey']
+}
+
+const PROMPT_FIELDS: FieldSet<PromptPreset> = {
+  fields: ['name', 'kind', 'content'],
+  conflict: ['content'],
+  secret: []
+}
+
+// 深拷贝（配置可能是响应式对象，不能用 structuredClone）
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function trimSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '')
+}
+
+function formatValue(value: unknown): string {
+  if (isEmpty(value)) return '（空）'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+// 先按 ID 匹配，再按 fallback 匹配（不同设备上创建的同一条目 ID 不同）
+function findMatch<T extends { id: string }>(list: T[], item: T, fallback: (a: T, b: T) => boolean): T | undefined {
+  return list.find(x => x.id === item.id) ?? list.find(x => fallback(x, item))
+}
+
+const matchProvider = (a: Provider, b: Provider) => trimSlash(a.baseUrl) === trimSlash(b.baseUrl) || a.name === b.name
+const matchApiKey = (a: ApiKey, b: ApiKey) => a.name === b.name || (!!a.key && a.key === b.key)
+const matchModel = (a: Model, b: Model) => a.name === b.name
+const matchSearchService = (a: SearchService, b: SearchService) => a.type === b.type && a.name === b.name
+const matchPrompt = (a: PromptPreset, b: PromptPreset) => a.kind === b.kind && a.name === b.name
+
+// 导入值与当前值不同的字段；导入中为空的密钥视为未提供（脱敏导出的配置）
+function changedFields<T>(current: T, incoming: T, set: FieldSet<T>): (keyof T & string)[] {
+  return set.fields.filter(field => {
+    if (set.secret.includes(field) && isEmpty(incoming[field])) return false
+    return !same(current[field], incoming[field])
+  })
+}
+
+function compare<T>(current: T, incoming: T, set: FieldSet<T>): { action: 'update' | 'conflict'; details: string[] } | null {
+  const fields = changedFields(current, incoming, set)
+  if (fields.length === 0) return null
+  const conflict = fields.some(f => set.conflict.includes(f) && !isEmpty(current[f]))
+  const details = fields.map(f => set.secret.includes(f)
+    ? `${FIELD_LABELS[f] ?? f} 不同`
+    : `${FIELD_LABELS[f] ?? f}：${formatValue(current[f])} → ${formatValue(incoming[f])}`)
+  return { action: conflict ? 'conflict' : 'update', details }
+}
+
+function countModels(apiKeys: ApiKey[]): number {
+  return apiKeys.reduce((total, k) => total + k.models.length, 0)
+}
+
+// 遍历导入配置中的条目与当前配置的对应关系，diff 和 merge 共用
+interface Visitor {
+  onChange: (change: ConfigChange, apply: () => void) => void
+}
+
+function walk(current: MergedConfig, incoming: AppConfig, visitor: Visitor) {
+  const report = (
+    id: string,
+    kind: ConfigChange['kind'],
+    label: string,
+    action: ConfigChange['action'],
+    details: string[],
+    apply: () => void
+  ) => visitor.onChange({ id, kind, action, label: `${KIND_LABELS[kind]} ${label}`, details }, apply)
+
+  for (const provider of incoming.providers) {
+    const existing = findMatch(current.providers, provider, matchProvider)
+    if (!existing) {
+      report(`provider:${provider.id}`, 'provider', provider.name, 'add',
+        [`${provider.baseUrl}，${provider.apiKeys.length} 个 Key，${countModels(provider.apiKeys)} 个模型`],
+        () => current.providers.push(clone(provider)))
+      continue
+    }
+    // 只差末尾斜杠的 Base URL 视为相同
+    const sameUrl = trimSlash(existing.baseUrl) === trimSlash(provider.baseUrl)
+    const providerDiff = compare(existing, sameUrl ? { ...provider, baseUrl: existing.baseUrl } : provider, PROVIDER_FIELDS)
+    if (providerDiff) {
+      report(`provider:${provider.id}`, 'provider', existing.name, providerDiff.action, providerDiff.details,
+        () => Object.assign(existing, { name: provider.name, baseUrl: sameUrl ? existing.baseUrl : provider.baseUrl }))
+    }
+
+    for (const apiKey of provider.apiKeys) {
+      const keyPath = `${provider.id}/${apiKey.id}`
+      const keyLabel = `${existing.name} / ${apiKey.name}`
+      const existingKey = findMatch(existing.apiKeys, apiKey, matchApiKey)
+      if (!existingKey) {
+        report(`apiKey:${keyPath}`, 'apiKey', keyLabel, 'add',
+          [`${apiKey.models.length} 个模型${apiKey.key ? '' : '，未包含 Key，需要手动填写'}`],
+          () => existing.apiKeys.push(clone(apiKey)))
+        continue
+      }
+      const keyDiff = compare(existingKey, apiKey, API_KEY_FIELDS)
+      if (keyDiff) {
+        report(`apiKey:${keyPath}`, 'apiKey', keyLabel, keyDiff.action, keyDiff.details, () => {
+          existingKey.name = apiKey.name
+          existingKey.maxConcurrency = apiKey.maxConcurrency
+          if (apiKey.key) existingKey.key = apiKey.key
+        })
+      }
+
+      for (const model of apiKey.models) {
+        const modelLabel = `${existing.name} / ${existingKey.name} / ${model.name}`
+        const existingModel = findMatch(existingKey.models, model, matchModel)
+        if (!existingModel) {
+          report(`model:${keyPath}/${model.id}`, 'model', modelLabel, 'add', [`协议 ${model.protocol || 'openai'}`],
+            () => existingKey.models.push(clone(model)))
+          continue
+        }
+        const modelDiff = compare(existingModel, model, MODEL_FIELDS)
+        if (modelDiff) {
+          report(`model:${keyPath}/${model.id}`, 'model', modelLabel, modelDiff.action, modelDiff.details,
+            () => Object.assign(existingModel, clone({ ...model, id: existingModel.id })))
+        }
+      }
+    }
+  }
+
+  for (const service of incoming.searchServices) {
+    const existing = findMatch(current.searchServices, service, matchSearchService)
+    if (!existing) {
+      report(`search:${service.id}`, 'searchService', service.name, 'add', [service.type],
+        () => current.searchServices.push(clone(service)))
+      continue
+    }
+    const diff = compare(existing, service, SEARCH_SERVICE_FIELDS)
+    if (diff) {
+      report(`search:${service.id}`, 'searchService', existing.name, diff.action, diff.details, () => {
+        Object.assign(existing, {
+          ...service,
+          id: existing.id,
+          apiKey: service.apiKey || existing.apiKey,
+          proxyApiKey: service.proxyApiKey || existing.proxyApiKey
+        })
+      })
+    }
+  }
+
+  const prompts = current.prompts!
+  for (const prompt of incoming.prompts || []) {
+    const existing = findMatch(prompts, prompt, matchPrompt)
+    if (!existing) {
+      report(`prompt:${prompt.id}`, 'prompt', prompt.name, 'add', [prompt.kind === 'system' ? '系统提示词' : '用户提示词模板'],
+        () => prompts.push(clone(prompt)))
+      continue
+    }
+    const diff = compare(existing, prompt, PROMPT_FIELDS)
+    if (diff) {
+      // 内容较长，只说明有差异
+      const details = diff.details.map(d => d.startsWith(FIELD_LABELS.content!) ? '内容不同' : d)
+      report(`prompt:${prompt.id}`, 'prompt', existing.name, diff.action, details,
+        () => Object.assign(existing, clone({ ...prompt, id: existing.id })))
+    }
+  }
+}
+
+// 导入配置相对当前配置的变更列表
+export function diffConfig(current: MergedConfig, incoming: AppConfig): ConfigChange[] {
+  const changes: ConfigChange[] = []
+  walk(clone({ ...current, prompts: current.prompts || [] }), incoming, { onChange: change => changes.push(change) })
+  return changes
+}
+
+// 按所选变更合并，返回新的服务商、搜索服务、自定义协议和提示词列表（不修改 current）
+export function mergeConfig(current: MergedConfig, incoming: AppConfig, accepted: Set<string>): MergedConfig {
+  const merged: MergedConfig = clone({
+    providers: current.providers,
+    searchServices: current.searchServices,
+    customProtocols: current.customProtocols || [],
+    prompts: current.prompts || []
+  })
+  walk(merged, incoming, {
+    onChange: (change, apply) => {
+      if (accepted.has(change.id)) apply()
+    }
+  })
+
+  // 合并后的模型引用的自定义协议一并导入
+  const protocols = merged.customProtocols!
+  const used = new Set(merged.providers.flatMap(p => p.apiKeys.flatMap(k => k.models.map(m => m.protocol))))
+  for (const protocol of incoming.customProtocols || []) {
+    if (used.has(`custom:${protocol.id}`) && !protocols.some(p => p.id === protocol.id)) {
+      protocols.push(clone(protocol))
+    }
+  }
+
+  // 同时只能启用一个搜索服务
+  const enabled = merged.searchServices.filter(s => s.enabled)
+  enabled.slice(1).forEach(s => { s.enabled = false })
+  return merged
+}
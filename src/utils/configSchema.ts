@@ -0,0 +1,289 @@
+// 配置结构：版本迁移和运行时校验，校验错误带可读的位置说明
+import { API_PROTOCOLS } from './api'
+import { isCustomProtocol } from './customProtocol'
+import { CONTEXT_STRATEGIES } from './context'
+import type { AppConfig, ApiProtocol } from '../types/config'
+
+export const CONFIG_VERSION = 2
+
+type RawConfig = Record<string, unknown>
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+// 迁移函数：把 key 对应版本的配置升级到下一版本
+const MIGRATIONS: Record<number, (config: RawConfig) => RawConfig> = {
+  // 版本 1：没有 version 字段的旧配置，补齐缺失的列表字段和模型的 enabled
+  1: (config) => ({
+    ...config,
+    providers: asArray(config.providers).map(provider => isObject(provider) ? {
+      ...provider,
+      apiKeys: asArray(provider.apiKeys).map(apiKey => isObject(apiKey) ? {
+        ...apiKey,
+        models: asArray(apiKey.models).map(model => isObject(model) ? { enabled: true, ...model } : model)
+      } : apiKey)
+    } : provider),
+    searchServices: asArray(config.searchServices),
+    version: 2
+  })
+}
+
+// 配置的版本，没有 version 字段视为版本 1
+export function configVersion(config: RawConfig): number {
+  return typeof config.version === 'number' ? config.version : 1
+}
+
+// 依次执行迁移升级到当前版本；版本高于当前支持的版本时抛出错误
+export function migrateConfig(config: RawConfig): RawConfig {
+  let version = configVersion(config)
+  if (version > CONFIG_VERSION) {
+    throw new Error(`配置版本 ${version} 高于当前支持的版本 ${CONFIG_VERSION}，请先升级应用`)
+  }
+  let migrated = config
+  while (version < CONFIG_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) throw new Error(`不支持从版本 ${version} 迁移`)
+    migrated = migrate(migrated)
+    version = configVersion(migrated)
+  }
+  return migrated
+}
+
+// 字段规则
+interface FieldRule {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array'
+  optional?: boolean
+  nonEmpty?: boolean            // 字符串不能为空
+  min?: number
+  values?: readonly string[]    // 可选值
+  items?: Schema                // 数组元素的结构
+  check?: (value: unknown) => string | null  // 额外检查，返回错误说明
+}
+
+interface Schema {
+  label: (item: Record<string, unknown>, index: number) => string  // 错误信息中显示的位置
+  fields: Record<string, FieldRule>
+}
+
+const TYPE_NAMES: Record<FieldRule['type'], string> = {
+  string: '字符串',
+  number: '数字',
+  boolean: '布尔值',
+  object: '对象',
+  array: '数组'
+}
+
+function named(kind: string) {
+  return (item: Record<string, unknown>, index: number) =>
+    typeof item.name === 'string' && item.name ? `${kind}「${item.name}」` : `${kind} #${index + 1}`
+}
+
+function checkProtocol(value: unknown): string | null {
+  const protocol = value as ApiProtocol
+  return API_PROTOCOLS.some(p => p.value === protocol) || isCustomProtocol(protocol)
+    ? null
+    : `不支持的协议 ${protocol}`
+}
+
+function checkStringRecord(value: unknown): string | null {
+  return isObject(value) && Object.values(value).every(v => typeof v === 'string') ? null : '应为字符串键值对'
+}
+
+function checkContext(value: unknown): string | null {
+  const context = value as Record<string, unknown>
+  if (!CONTEXT_STRATEGIES.some(s => s.value === context.strategy)) return `不支持的上下文策略 ${String(context.strategy)}`
+  if (typeof context.keepTurns !== 'number' || context.keepTurns < 1) return 'keepTurns 应为不小于 1 的数字'
+  if (context.summaryModel !== undefined && !isObject(context.summaryModel)) return 'summaryModel 应为对象'
+  return null
+}
+
+const MODEL_SCHEMA: Schema = {
+  label: named('模型'),
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    enabled: { type: 'boolean' },
+    protocol: { type: 'string', optional: true, check: checkProtocol },
+    defaultParams: { type: 'object', optional: true },
+    inputPrice: { type: 'number', optional: true, min: 0 },
+    outputPrice: { type: 'number', optional: true, min: 0 },
+    capabilities: { type: 'object', optional: true }
+  }
+}
+
+const API_KEY_SCHEMA: Schema = {
+  label: named('Key'),
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    key: { type: 'string' },  // 脱敏导出或加密时为空
+    models: { type: 'array', items: MODEL_SCHEMA },
+    maxConcurrency: { type: 'number', optional: true, min: 1 }
+  }
+}
+
+const PROVIDER_SCHEMA: Schema = {
+  label: named('服务商'),
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    baseUrl: { type: 'string', nonEmpty: true },
+    apiKeys: { type: 'array', items: API_KEY_SCHEMA }
+  }
+}
+
+const SEARCH_SERVICE_SCHEMA: Schema = {
+  label: named('搜索服务'),
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    type: { type: 'string', values: ['tavily', 'serpapi', 'searxng'] },
+    apiKey: { type: 'string' },
+    baseUrl: { type: 'string', optional: true },
+    username: { type: 'string', optional: true },
+    proxyApiKey: { type: 'string', optional: true },
+    enabled: { type: 'boolean' }
+  }
+}
+
+const CUSTOM_TOOL_SCHEMA: Schema = {
+  label: named('自定义工具'),
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    description: { type: 'string' },
+    method: { type: 'string', values: ['GET', 'POST'] },
+    url: { type: 'string', nonEmpty: true },
+    headers: { type: 'object', optional: true, check: checkStringRecord },
+    parameters: { type: 'object' }
+  }
+}
+
+const CUSTOM_PROTOCOL_SCHEMA: Schema = {
+  label: named('自定义协议'),
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    url: { type: 'string', nonEmpty: true },
+    headers: { type: 'object', check: checkStringRecord },
+    body: { type: 'string' },
+    framing: { type: 'string', values: ['sse', 'ndjson'] },
+    contentPath: { type: 'string', nonEmpty: true },
+    donePath: { type: 'string', optional: true },
+    errorPath: { type: 'string', optional: true }
+  }
+}
+
+const PROMPT_SCHEMA: Schema = {
+  label: named('提示词'),
+  fields: {
+    id: { type: 'string', nonEmpty: true },
+    name: { type: 'string', nonEmpty: true },
+    kind: { type: 'string', values: ['system', 'user'] },
+    content: { type: 'string' }
+  }
+}
+
+const APP_CONFIG_SCHEMA: Schema = {
+  label: () => '配置',
+  fields: {
+    version: { type: 'number' },
+    providers: { type: 'array', items: PROVIDER_SCHEMA },
+    searchServices: { type: 'array', items: SEARCH_SERVICE_SCHEMA },
+    theme: { type: 'string', optional: true, values: ['light', 'dark'] },
+    maxToolRounds: { type: 'number', optional: true, min: 0 },
+    maxRetries: { type: 'number', optional: true, min: 0 },
+    lockAfterMinutes: { type: 'number', optional: true, min: 0 },
+    fetchProxy: { type: 'string', optional: true },
+    customTools: { type: 'array', optional: true, items: CUSTOM_TOOL_SCHEMA },
+    customProtocols: { type: 'array', optional: true, items: CUSTOM_PROTOCOL_SCHEMA },
+    prompts: { type: 'array', optional: true, items: PROMPT_SCHEMA },
+    context: { type: 'object', optional: true, check: checkContext },
+    vault: { type: 'object', optional: true }
+  }
+}
+
+function typeOf(value: unknown): FieldRule['type'] | null {
+  if (Array.isArray(value)) return 'array'
+  if (isObject(value)) return 'object'
+  if (typeof value === 'number') return Number.isFinite(value) ? 'number' : null
+  if (typeof value === 'string' || typeof value === 'boolean') return typeof value as 'string' | 'boolean'
+  return null
+}
+
+function validateObject(value: Record<string, unknown>, schema: Schema, location: string, errors: string[]) {
+  for (const [field, rule] of Object.entries(schema.fields)) {
+    const fieldValue = value[field]
+    const where = `${location}：${field}`
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!rule.optional) errors.push(`${where} 缺失`)
+      continue
+    }
+    if (typeOf(fieldValue) !== rule.type) {
+      errors.push(`${where} 应为${TYPE_NAMES[rule.type]}`)
+      continue
+    }
+    if (rule.nonEmpty && (fieldValue as string).trim() === '') {
+      errors.push(`${where} 不能为空`)
+    } else if (rule.values && !rule.values.includes(fieldValue as string)) {
+      errors.push(`${where} 应为 ${rule.values.join(' / ')} 之一，实际为 ${fieldValue}`)
+    } else if (rule.min !== undefined && (fieldValue as number) < rule.min) {
+      errors.push(`${where} 不能小于 ${rule.min}`)
+    } else {
+      const problem = rule.check?.(fieldValue)
+      if (problem) errors.push(`${where} ${problem}`)
+    }
+    if (rule.items) {
+      validateList(fieldValue as unknown[], rule.items, location === '配置' ? '' : `${location} › `, errors)
+    }
+  }
+}
+
+// 校验列表元素的结构和 ID 唯一性
+function validateList(list: unknown[], schema: Schema, prefix: string, errors: string[]) {
+  const ids = new Set<string>()
+  list.forEach((item, index) => {
+    if (!isObject(item)) {
+      errors.push(`${prefix}${schema.label({}, index)} 应为对象`)
+      return
+    }
+    const location = `${prefix}${schema.label(item, index)}`
+    if (typeof item.id === 'string') {
+      if (ids.has(item.id)) errors.push(`${location}：id ${item.id} 重复`)
+      ids.add(item.id)
+    }
+    validateObject(item, schema, location, errors)
+  })
+}
+
+// 校验（已迁移到当前版本的）配置，返回错误列表
+export function validateConfig(config: unknown): string[] {
+  if (!isObject(config)) return ['配置应为 JSON 对象']
+  const errors: string[] = []
+  validateObject(config, APP_CONFIG_SCHEMA, '配置', errors)
+  return errors
+}
+
+// 解析、迁移并校验配置 JSON
+export function parseConfig(json: string): { config: AppConfig | null; errors: string[] } {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch (e) {
+    return { config: null, errors: [`JSON 解析失败：${(e as Error).message}`] }
+  }
+  if (!isObject(raw)) return { config: null, errors: ['配置应为 JSON 对象'] }
+  let migrated: RawConfig
+  try {
+    migrated = migrateConfig(raw)
+  } catch (e) {
+    return { config: null, errors: [(e as Error).message] }
+  }
+  const errors = validateConfig(migrated)
+  return { config: errors.length ? null : migrated as unknown as AppConfig, errors }
+}
@@ -0,0 +1,139 @@
+// 上下文管理：按轮次裁剪或摘要对话历史，避免超出模型上下文长度
+import { estimateHistoryTokens } from './tokens'
+import { formatTokenCount } from './capabilities'
+import type { ContextSettings, ContextStrategy, ContextTrim, Message } from '../types/config'
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = { strategy: 'none', keepTurns: 10 }
+
+export const CONTEXT_STRATEGIES: Array<{ value: ContextStrategy; label: string }> = [
+  { value: 'none', label: '发送完整历史' },
+  { value: 'drop-oldest', label: '超出上下文时丢弃最早的轮次' },
+  { value: 'last-turns', label: '只保留最近 N 轮' },
+  { value: 'summarize', label: '总结最近 N 轮之前的对话' }
+]
+
+// 未设置最大输出时为回复预留的 tokens（不超过上下文的四分之一）
+const DEFAULT_OUTPUT_RESERVE = 4096
+
+const SUMMARY_PROMPT = '请将下面的对话总结为简洁的摘要，保留其中的事实、结论、用户的要求和偏好以及尚未解决的问题，供后续对话参考。直接输出摘要，不要添加其他说明。'
+const SUMMARY_HEADER = '以下是之前对话的摘要：\n'
+
+export interface PreparedHistory {
+  messages: Message[]
+  trim?: ContextTrim  // 未裁剪时为空
+}
+
+// 发送历史可用的 tokens：上下文长度减去为回复预留的部分，未知上下文长度时为 undefined
+export function historyBudget(contextWindow: number | undefined, maxTokens: number | undefined): number | undefined {
+  if (!contextWindow) return undefined
+  return contextWindow - (maxTokens ?? Math.min(DEFAULT_OUTPUT_RESERVE, Math.floor(contextWindow / 4)))
+}
+
+// 裁剪说明，如「已摘要较早的 6 轮 · 丢弃 2 轮 · 发送约 12.3K tokens」
+export function formatContextTrim(trim: ContextTrim): string {
+  const parts: string[] = []
+  if (trim.summaryError) parts.push(`摘要失败：${trim.summaryError}`)
+  if (trim.summarizedTurns) parts.push(`已摘要较早的 ${trim.summarizedTurns} 轮`)
+  if (trim.droppedTurns) parts.push(trim.summarizedTurns ? `丢弃 ${trim.droppedTurns} 轮` : `已丢弃最早的 ${trim.droppedTurns} 轮`)
+  parts.push(`发送约 ${formatTokenCount(trim.estimatedTokens)} tokens`)
+  return parts.join(' · ')
+}
+
+// 每条用户消息开始新的一轮，工具调用和结果随所在轮次一起保留或丢弃
+function splitTurns(messages: Message[]): Message[][] {
+  const turns: Message[][] = []
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) turns.push([])
+    turns[turns.length - 1]!.push(message)
+  }
+  return turns
+}
+
+function transcript(messages: Message[]): string {
+  return messages.flatMap(m => {
+    if (m.role === 'user') return [`用户：${m.content}`]
+    if (m.role === 'assistant' && m.content) return [`助手：${m.content}`]
+    return []
+  }).join('\n\n')
+}
+
+// 摘要缓存：同一段较早的对话用同一模型只总结一次
+const summaryCache = new Map<string, string>()
+
+async function summarizeTurns(
+  messages: Message[],
+  settings: ContextSettings,
+  summarize: (request: Message[]) => Promise<string>,
+  signal?: AbortSignal
+): Promise<string> {
+  const text = transcript(messages)
+  const key = `${JSON.stringify(settings.summaryModel)}\n${text}`
+  const cached = summaryCache.get(key)
+  if (cached) return cached
+  const summary = (await summarize([
+    { role: 'system', content: SUMMARY_PROMPT },
+    { role: 'user', content: text }
+  ])).trim()
+  // 中止时只返回了部分摘要，不能缓存
+  if (signal?.aborted) throw new Error('已停止')
+  if (!summary) throw new Error('摘要模型没有返回内容')
+  summaryCache.set(key, summary)
+  return summary
+}
+
+// 按设置处理发送给模型的历史（开头的系统消息始终保留，摘要追加到系统消息中）；
+// 除 none 外，处理后仍超出 budget 时继续丢弃最早的轮次，最后一轮始终保留；
+// 摘要失败时这些轮次改为丢弃，原因记录在 trim.summaryError 中
+export async function prepareHistory(
+  history: Message[],
+  settings: ContextSettings,
+  budget: number | undefined,
+  summarize: (request: Message[]) => Promise<string>,
+  signal?: AbortSignal
+): Promise<PreparedHistory> {
+  const system = history[0]?.role === 'system' ? history[0] : undefined
+  const turns = splitTurns(system ? history.slice(1) : history)
+  let start = 0
+  let summarized = 0
+  let summary: string | undefined
+  let summaryError: string | undefined
+
+  const older = turns.length - Math.max(1, settings.keepTurns)
+  if ((settings.strategy === 'last-turns' || settings.strategy === 'summarize') && older > 0) {
+    start = older
+    if (settings.strategy === 'summarize') {
+      try {
+        summary = await summarizeTurns(turns.slice(0, older).flat(), settings, summarize, signal)
+        summarized = older
+      } catch (e) {
+        summaryError = e instanceof Error ? e.message : String(e)
+      }
+    }
+  }
+
+  const head: Message[] = summary
+    ? [system
+        ? { ...system, content: `${system.content}\n\n${SUMMARY_HEADER}${summary}` }
+        : { role: 'system', content: SUMMARY_HEADER + summary }]
+    : system ? [system] : []
+  let tokens = estimateHistoryTokens([...head, ...turns.slice(start).flat()])
+  if (settings.strategy !== 'none' && budget !== undefined) {
+    while (tokens > budget && start < turns.length - 1) {
+      tokens -= estimateHistoryTokens(turns[start]!)
+      start++
+    }
+  }
+
+  const messages = [...head, ...turns.slice(start).flat()]
+  if (start === 0) return { messages }
+  return {
+    messages,
+    trim: {
+      strategy: settings.strategy,
+      droppedTurns: start - summarized,
+      summarizedTurns: summarized,
+      estimatedTokens: tokens,
+      summaryError
+    }
+  }
+}
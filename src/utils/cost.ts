@@ -0,0 +1,28 @@
+import type { Model, Message, TokenUsage } from '../types/config'
+
+const TOKENS_PER_UNIT = 1_000_000
+
+// 按模型价格计算一次请求的费用，未配置价格或没有用量时返回 undefined
+export function calcCost(
+  usage: TokenUsage | undefined,
+  pricing: Pick<Model, 'inputPrice' | 'outputPrice'> | undefined
+): number | undefined {
+  if (!usage || !pricing) return undefined
+  if (pricing.inputPrice === undefined && pricing.outputPrice === undefined) return undefined
+
+  const input = (usage.inputTokens || 0) * (pricing.inputPrice || 0)
+  const output = (usage.outputTokens || 0) * (pricing.outputPrice || 0)
+  return (input + output) / TOKENS_PER_UNIT
+}
+
+// 汇总消息列表的费用
+export function sumMessagesCost(messages: Message[]): number {
+  return messages.reduce((total, m) => total + (m.metrics?.cost || 0), 0)
+}
+
+// 格式化费用，金额较小时保留更多小数位
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0'
+  if (cost < 0.01) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}
@@ -0,0 +1,202 @@
+// 用户自定义协议：按模板构造请求，按 JSON 路径解析 SSE / NDJSON 流
+import type { ApiProtocol, CustomProtocol, Message } from '../types/config'
+import type { ChatOptions, StreamCallbacks } from './api'
+import { toHttpError } from './retry'
+
+const CUSTOM_PREFIX = 'custom:'
+
+// 未设置的参数占位，替换后从请求体中删除对应字段
+const UNSET = '__unset__'
+
+export function isCustomProtocol(protocol: ApiProtocol): protocol is `custom:${string}` {
+  return protocol.startsWith(CUSTOM_PREFIX)
+}
+
+export function customProtocolId(protocol: ApiProtocol): string | null {
+  return isCustomProtocol(protocol) ? protocol.slice(CUSTOM_PREFIX.length) : null
+}
+
+export function toCustomProtocol(id: string): ApiProtocol {
+  return `${CUSTOM_PREFIX}${id}`
+}
+
+// 兼容 OpenAI 的默认模板，新建协议时在此基础上修改
+export const DEFAULT_CUSTOM_PROTOCOL: Omit<CustomProtocol, 'id' | 'name'> = {
+  url: '{baseUrl}/chat/completions',
+  headers: { Authorization: 'Bearer {apiKey}' },
+  body: JSON.stringify({
+    model: '{model}',
+    messages: '{messages}',
+    temperature: '{temperature}',
+    max_tokens: '{maxTokens}',
+    top_p: '{topP}',
+    stop: '{stop}',
+    seed: '{seed}',
+    stream: true
+  }, null, 2).replace(/"(\{\w+\})"/g, '$1'),
+  framing: 'sse',
+  contentPath: 'choices[0].delta.content',
+  donePath: 'choices[0].finish_reason',
+  errorPath: 'error.message'
+}
+
+// 请求体模板可用的变量，替换为 JSON 值
+export const BODY_VARIABLES = ['model', 'messages', 'system', 'prompt', 'temperature', 'maxTokens', 'topP', 'stop', 'seed']
+
+function replaceVariables(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match)
+}
+
+// 按路径取值，支持 a.b.0.c 和 a.b[0].c
+export function getByPath(value: unknown, path: string): unknown {
+  const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)
+  let current = value
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+// 删除值为占位符的字段（对应参数未设置）
+function removeUnset(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.filter(v => v !== UNSET).map(removeUnset)
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, v]) => v !== UNSET).map(([k, v]) => [k, removeUnset(v)])
+    )
+  }
+  return value
+}
+
+// 消息只保留角色和文本（附件和工具调用不传）
+function toPlainMessages(messages: Message[]) {
+  return messages
+    .filter(m => m.role !== 'tool')
+    .map(m => ({ role: m.role, content: m.content }))
+}
+
+export function buildCustomRequest(
+  definition: CustomProtocol,
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: Message[],
+  options: ChatOptions = {}
+): { url: string; headers: Record<string, string>; body: string } {
+  const params = options.params || {}
+  const json = (value: unknown) => JSON.stringify(value ?? UNSET)
+  const lastUser = [...messages].reverse().find(m => m.role === 'user')
+
+  const url = replaceVariables(definition.url, {
+    baseUrl,
+    model: encodeURIComponent(model),
+    apiKey: encodeURIComponent(apiKey)
+  })
+  const headers = Object.fromEntries(
+    Object.entries(definition.headers).map(([k, v]) => [k, replaceVariables(v, { apiKey, model })])
+  )
+  const rendered = replaceVariables(definition.body, {
+    model: json(model),
+    messages: json(toPlainMessages(messages)),
+    system: json(messages.find(m => m.role === 'system')?.content),
+    prompt: json(lastUser?.content),
+    temperature: json(params.temperature),
+    maxTokens: json(params.maxTokens),
+    topP: json(params.topP),
+    stop: json(params.stop?.length ? params.stop : undefined),
+    seed: json(params.seed)
+  })
+
+  let body: unknown
+  try {
+    body = JSON.parse(rendered)
+  } catch (error) {
+    throw new Error(`自定义协议 ${definition.name} 的请求体模板不是合法 JSON：${(error as Error).message}`)
+  }
+  return { url, headers, body: JSON.stringify(removeUnset(body)) }
+}
+
+// 自定义协议流式请求
+export async function streamCustom(
+  definition: CustomProtocol,
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: Message[],
+  callbacks: StreamCallbacks,
+  signal?: AbortSignal,
+  options: ChatOptions = {}
+): Promise<void> {
+  const request = buildCustomRequest(definition, baseUrl, apiKey, model, messages, options)
+
+  const response = await fetch(request.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...request.headers
+    },
+    body: request.body,
+    signal
+  })
+
+  if (!response.ok) {
+    throw await toHttpError(response)
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body')
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  // 处理一行，返回是否已结束
+  const handleLine = (line: string): boolean => {
+    let payload = line.trim()
+    if (definition.framing === 'sse') {
+      if (!payload.startsWith('data:')) return false
+      payload = payload.slice(5).trim()
+      if (payload === '[DONE]') return true
+    }
+    if (!payload) return false
+
+    let json: unknown
+    try {
+      json = JSON.parse(payload)
+    } catch {
+      return false // 忽略解析错误
+    }
+
+    const error = definition.errorPath ? getByPath(json, definition.errorPath) : undefined
+    if (error) {
+      throw new Error(`API Error: ${typeof error === 'string' ? error : JSON.stringify(error)}`)
+    }
+    const content = getByPath(json, definition.contentPath)
+    if (typeof content === 'string' && content) {
+      callbacks.onChunk(content)
+    }
+    return !!definition.donePath && !!getByPath(json, definition.donePath)
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (handleLine(line)) {
+        await reader.cancel()
+        return
+      }
+    }
+  }
+
+  if (buffer) handleLine(buffer)
+}
@@ -0,0 +1,192 @@
+// 批量评测数据集：JSONL / CSV 的解析与导出
+import type { DatasetItem } from '../types/config'
+
+export type DatasetFormat = 'jsonl' | 'csv'
+
+export interface ParseResult {
+  items: DatasetItem[]
+  errors: string[]  // 跳过的行及原因
+}
+
+const PROMPT_FIELDS = ['prompt', 'input', 'question']
+const EXPECTED_FIELDS = ['expected', 'answer', 'output']
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 9)
+}
+
+// 由文件名或内容推断格式：以 { 或 [ 开头视为 JSONL
+export function detectFormat(text: string, filename?: string): DatasetFormat {
+  if (filename) {
+    const ext = filename.toLowerCase().split('.').pop()
+    if (ext === 'csv') return 'csv'
+    if (ext === 'jsonl' || ext === 'json') return 'jsonl'
+  }
+  const first = text.trimStart()[0]
+  return first === '{' || first === '[' ? 'jsonl' : 'csv'
+}
+
+// 把一条记录转换为数据集条目：识别 prompt / expected 字段，其余标量字段作为变量
+function toItem(record: Record<string, unknown>): DatasetItem | string {
+  const promptKey = PROMPT_FIELDS.find(k => typeof record[k] === 'string' && (record[k] as string).trim())
+  if (!promptKey) return `缺少 ${PROMPT_FIELDS.join(' / ')} 字段`
+  const expectedKey = EXPECTED_FIELDS.find(k => record[k] !== undefined && record[k] !== null)
+  const expected = expectedKey ? String(record[expectedKey]) : ''
+
+  const variables: Record<string, string> = {}
+  const nested = record.variables
+  if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+    for (const [k, v] of Object.entries(nested)) variables[k] = String(v)
+  }
+  for (const [k, v] of Object.entries(record)) {
+    if (k === promptKey || k === expectedKey || k === 'variables' || k === 'id') continue
+    if (v === null || typeof v === 'object') continue
+    variables[k] = String(v)
+  }
+
+  return {
+    id: generateId(),
+    prompt: record[promptKey] as string,
+    expected: expected || undefined,
+    variables: Object.keys(variables).length > 0 ? variables : undefined
+  }
+}
+
+function parseJsonl(text: string): ParseResult {
+  const items: DatasetItem[] = []
+  const errors: string[] = []
+
+  // 兼容整个文件是一个 JSON 数组
+  const trimmed = text.trim()
+  let records: { line: number; value: unknown }[]
+  if (trimmed.startsWith('[')) {
+    try {
+      records = (JSON.parse(trimmed) as unknown[]).map((value, i) => ({ line: i + 1, value }))
+    } catch {
+      return { items, errors: ['JSON 数组解析失败'] }
+    }
+  } else {
+    records = []
+    text.split(/\r?\n/).forEach((line, i) => {
+      if (!line.trim()) return
+      try {
+        records.push({ line: i + 1, value: JSON.parse(line) })
+      } catch {
+        errors.push(`第 ${i + 1} 行：JSON 解析失败`)
+      }
+    })
+  }
+
+  for (const { line, value } of records) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`第 ${line} 行：不是 JSON 对象`)
+      continue
+    }
+    const item = toItem(value as Record<string, unknown>)
+    if (typeof item === 'string') {
+      errors.push(`第 ${line} 行：${item}`)
+    } else {
+      items.push(item)
+    }
+  }
+  return { items, errors }
+}
+
+// 解析 CSV（支持引号包裹的字段、字段内换行和 "" 转义）
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(cell => cell.trim()))
+}
+
+function parseCsv(text: string): ParseResult {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header) return { items: [], errors: ['文件为空'] }
+
+  const columns = header.map(h => h.trim())
+  const items: DatasetItem[] = []
+  const errors: string[] = []
+  rows.forEach((cells, i) => {
+    const record: Record<string, string> = {}
+    columns.forEach((col, j) => {
+      if (col) record[col] = cells[j] ?? ''
+    })
+    const item = toItem(record)
+    if (typeof item === 'string') {
+      errors.push(`第 ${i + 2} 行：${item}`)
+    } else {
+      items.push(item)
+    }
+  })
+  return { items, errors }
+}
+
+export function parseDataset(text: string, format: DatasetFormat): ParseResult {
+  return format === 'csv' ? parseCsv(text) : parseJsonl(text)
+}
+
+export function toJsonl(rows: Record<string, unknown>[]): string {
+  return rows.map(row => JSON.stringify(row)).join('\n') + '\n'
+}
+
+function escapeCsv(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// 导出 CSV，列为所有行字段的并集；带 BOM 以便 Excel 正确识别中文
+export function toCsv(rows: Record<string, unknown>[]): string {
+  const columns: string[] = []
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key)
+    }
+  }
+  const lines = [
+    columns.map(escapeCsv).join(','),
+    ...rows.map(row => columns.map(col => escapeCsv(row[col])).join(','))
+  ]
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+// 回答是否包含期望答案（忽略大小写和空白差异）
+export function matchesExpected(content: string, expected: string): boolean {
+  const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim()
+  const target = normalize(expected)
+  return target !== '' && normalize(content).includes(target)
+}
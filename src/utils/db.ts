@@ -0,0 +1,70 @@
+// IndexedDB 封装 - 用于保存体积较大的数据（对比会话、批量评测结果等）
+
+const DB_NAME = 'llms_compare'
+const DB_VERSION = 3
+
+// 所有 object store，均以 id 作为主键
+const STORES = ['sessions', 'arenaVotes', 'batchRuns'] as const
+
+export type StoreName = typeof STORES[number]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const name of STORES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' })
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+function wrapRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function getStore(name: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDB()
+  return db.transaction(name, mode).objectStore(name)
+}
+
+// 读取 store 中的全部记录
+export async function idbGetAll<T>(name: StoreName): Promise<T[]> {
+  const store = await getStore(name, 'readonly')
+  return wrapRequest(store.getAll() as IDBRequest<T[]>)
+}
+
+// 写入（新增或覆盖）一条记录，value 必须是可结构化克隆的普通对象
+export async function idbPut<T extends { id: string }>(name: StoreName, value: T): Promise<void> {
+  const store = await getStore(name, 'readwrite')
+  await wrapRequest(store.put(value))
+}
+
+// 删除一条记录
+export async function idbDelete(name: StoreName, id: string): Promise<void> {
+  const store = await getStore(name, 'readwrite')
+  await wrapRequest(store.delete(id))
+}
+
+// 清空 store
+export async function idbClear(name: StoreName): Promise<void> {
+  const store = await getStore(name, 'readwrite')
+  await wrapRequest(store.clear())
+}
@@ -0,0 +1,228 @@
+// 文本差异：按词或按行比较两段回答，代码块始终按行比较，可忽略空白和 Markdown 格式
+export type DiffGranularity = 'word' | 'line'
+
+export interface DiffOptions {
+  granularity: DiffGranularity
+  ignoreWhitespace: boolean
+  ignoreMarkdown: boolean
+}
+
+// 一侧显示的片段；changed 为该侧独有（左侧为删除，右侧为新增）
+export interface DiffPart {
+  text: string
+  changed: boolean
+}
+
+// 一侧显示的块：普通文本或代码块
+export interface DiffBlock {
+  code: boolean
+  lang?: string
+  parts: DiffPart[]
+}
+
+export interface DiffResult {
+  left: DiffBlock[]
+  right: DiffBlock[]
+  removed: number     // 删除的单元数（词或行）
+  added: number
+  similarity: number  // 0-1，相同单元占比
+}
+
+interface Token {
+  text: string   // 显示的文本
+  key: string    // 比较用的文本，为空时只显示不参与比较
+  block: number
+}
+
+type DiffOp = { type: 'equal'; a: number; b: number } | { type: 'delete'; a: number } | { type: 'insert'; b: number }
+
+// 编辑距离超过此值时不再细分，整体视为删除 + 新增
+const MAX_EDIT_DISTANCE = 5000
+
+// 中日韩文字没有空格分词，每个字单独作为一个词
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}'
+const WORD_PATTERN = new RegExp(`([${CJK}]|[^\\s${CJK}\\p{P}\\p{S}]+|[\\p{P}\\p{S}])(\\s*)`, 'gu')
+
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+#.-]*)/
+
+// 按围栏拆分为文本块和代码块（未闭合的代码块延续到结尾）
+function splitBlocks(text: string): DiffBlock[] {
+  const blocks: Array<DiffBlock & { lines: string[] }> = []
+  let current: (DiffBlock & { lines: string[] }) | null = null
+  let fence = ''
+  for (const line of text.split('\n')) {
+    const match = line.match(FENCE_PATTERN)
+    if (fence) {
+      if (match && match[1] === fence && !match[2]) {
+        fence = ''
+        current = null
+        continue
+      }
+      current!.lines.push(line)
+      continue
+    }
+    if (match) {
+      fence = match[1]!
+      current = { code: true, lang: match[2] || undefined, parts: [], lines: [] }
+      blocks.push(current)
+      continue
+    }
+    if (!current || current.code) {
+      current = { code: false, parts: [], lines: [] }
+      blocks.push(current)
+    }
+    current.lines.push(line)
+  }
+  return blocks.map(({ lines, ...block }) => ({ ...block, parts: [{ text: lines.join('\n'), changed: false }] }))
+}
+
+// 去掉 Markdown 格式标记，保留文字
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*([-*+]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '')
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?![\w*])/g, '$1$2')
+    .replace(/`([^`\n]+)`/g, '$1')
+}
+
+function normalizeSpace(text: string): string {
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+// 空行的 key 为空，只显示不参与比较
+function lineTokens(text: string, block: number, options: DiffOptions): Token[] {
+  const lines = text.split('\n')
+  return lines.map((line, index) => ({
+    text: index < lines.length - 1 ? line + '\n' : line,
+    key: options.ignoreWhitespace ? normalizeSpace(line) : line,
+    block
+  }))
+}
+
+function wordTokens(text: string, block: number, options: DiffOptions): Token[] {
+  const tokens: Token[] = []
+  const leading = text.match(/^\s+/)?.[0]
+  if (leading) tokens.push({ text: leading, key: '', block })
+  for (const [, word, space] of text.matchAll(WORD_PATTERN)) {
+    tokens.push({ text: word! + space!, key: options.ignoreWhitespace ? word! : word! + space!, block })
+  }
+  return tokens
+}
+
+function tokenize(blocks: DiffBlock[], options: DiffOptions): Token[] {
+  return blocks.flatMap((block, index) => {
+    let text = block.parts[0]!.text
+    if (block.code) return lineTokens(text, index, options)
+    if (options.ignoreMarkdown) text = stripMarkdown(text)
+    return options.granularity === 'line' ? lineTokens(text, index, options) : wordTokens(text, index, options)
+  })
+}
+
+// Myers 差分算法，只保存每步的有效范围，内存与编辑距离的平方成正比
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+        ? v[offset + k + 1]!
+        : v[offset + k - 1]! + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) return backtrack(trace, n, m)
+    }
+  }
+
+  // 差异过大：整体替换
+  return [
+    ...a.map((_, i) => ({ type: 'delete' as const, a: i })),
+    ...b.map((_, i) => ({ type: 'insert' as const, b: i }))
+  ]
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffOp[] {
+  const ops: DiffOp[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d]!
+    const at = (k: number) => prev[k + d]!
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', a: --x, b: --y })
+    }
+    if (x === prevX) {
+      ops.push({ type: 'insert', b: --y })
+    } else {
+      ops.push({ type: 'delete', a: --x })
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', a: --x, b: --y })
+  }
+  return ops.reverse()
+}
+
+// 按 token 的块归属组装显示块，相邻同状态片段合并
+function assemble(blocks: DiffBlock[], tokens: Token[], changed: Set<number>): DiffBlock[] {
+  const result: DiffBlock[] = blocks.map(block => ({ code: block.code, lang: block.lang, parts: [] }))
+  tokens.forEach((token, index) => {
+    const parts = result[token.block]!.parts
+    const isChanged = changed.has(index)
+    const last = parts[parts.length - 1]
+    if (last && last.changed === isChanged) {
+      last.text += token.text
+    } else {
+      parts.push({ text: token.text, changed: isChanged })
+    }
+  })
+  return result.filter(block => block.parts.some(p => p.text.trim()))
+}
+
+export function diffTexts(before: string, after: string, options: DiffOptions): DiffResult {
+  const leftBlocks = splitBlocks(before)
+  const rightBlocks = splitBlocks(after)
+  const leftTokens = tokenize(leftBlocks, options)
+  const rightTokens = tokenize(rightBlocks, options)
+
+  // 只比较有 key 的 token，代码块内容加前缀避免与正文相同的行匹配
+  const compared = (tokens: Token[], blocks: DiffBlock[]) =>
+    tokens.flatMap((t, i) => t.key ? [{ index: i, key: (blocks[t.block]!.code ? '\u0000' : '') + t.key }] : [])
+  const a = compared(leftTokens, leftBlocks)
+  const b = compared(rightTokens, rightBlocks)
+
+  const removed = new Set<number>()
+  const added = new Set<number>()
+  let equal = 0
+  for (const op of myers(a.map(t => t.key), b.map(t => t.key))) {
+    if (op.type === 'equal') equal++
+    else if (op.type === 'delete') removed.add(a[op.a]!.index)
+    else added.add(b[op.b]!.index)
+  }
+
+  const total = a.length + b.length
+  return {
+    left: assemble(leftBlocks, leftTokens, removed),
+    right: assemble(rightBlocks, rightTokens, added),
+    removed: removed.size,
+    added: added.size,
+    similarity: total === 0 ? 1 : (2 * equal) / total
+  }
+}
@@ -0,0 +1,10 @@
+// 触发浏览器下载文本文件
+export function downloadFile(content: string, filename: string, type = 'application/json') {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,55 @@
+import type { ArenaVote } from '../types/config'
+
+export interface ModelRating {
+  model: string
+  rating: number
+  battles: number
+  wins: number
+  losses: number
+  ties: number
+}
+
+const INITIAL_RATING = 1000
+const K_FACTOR = 32
+
+// 按投票时间顺序计算 Elo 评分，平局和「都不好」都按平局处理
+export function computeElo(votes: ArenaVote[]): ModelRating[] {
+  const ratings = new Map<string, ModelRating>()
+
+  const get = (model: string): ModelRating => {
+    let r = ratings.get(model)
+    if (!r) {
+      r = { model, rating: INITIAL_RATING, battles: 0, wins: 0, losses: 0, ties: 0 }
+      ratings.set(model, r)
+    }
+    return r
+  }
+
+  const ordered = [...votes].sort((a, b) => a.createdAt - b.createdAt)
+  for (const vote of ordered) {
+    const a = get(vote.modelA)
+    const b = get(vote.modelB)
+
+    // A 的实际得分
+    const scoreA = vote.verdict === 'a' ? 1 : vote.verdict === 'b' ? 0 : 0.5
+    const expectedA = 1 / (1 + Math.pow(10, (b.rating - a.rating) / 400))
+
+    a.rating += K_FACTOR * (scoreA - expectedA)
+    b.rating += K_FACTOR * ((1 - scoreA) - (1 - expectedA))
+
+    a.battles++
+    b.battles++
+    if (scoreA === 1) {
+      a.wins++
+      b.losses++
+    } else if (scoreA === 0) {
+      a.losses++
+      b.wins++
+    } else {
+      a.ties++
+      b.ties++
+    }
+  }
+
+  return [...ratings.values()].sort((x, y) => y.rating - x.rating)
+}
@@ -0,0 +1,177 @@
+import { completeChat, chatWithToolsTarget, supportsTools, type ChatTarget, type Tool } from './api'
+import type { Message, JudgeCriterion, TokenUsage } from '../types/config'
+
+// 默认评审标准
+export const DEFAULT_RUBRIC: JudgeCriterion[] = [
+  { name: '准确性', description: '事实是否正确，有无错误或编造' },
+  { name: '有帮助性', description: '是否真正解决了用户的问题' },
+  { name: '简洁性', description: '是否简明扼要，没有多余内容' }
+]
+
+const MIN_SCORE = 1
+const MAX_SCORE = 10
+
+export interface JudgeOutput {
+  scores: Record<string, number>
+  reasoning: string
+}
+
+// 评审输出格式错误
+export class JudgeFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JudgeFormatError'
+  }
+}
+
+// 工具参数名只能使用 ASCII（Anthropic 要求匹配 ^[a-zA-Z0-9_.-]{1,64}$），评审标准按顺序对应 c0、c1…
+function criterionKey(index: number): string {
+  return `c${index}`
+}
+
+// 结构化输出工具：支持 Tool Use 的协议通过调用此工具提交评分
+function buildJudgeTool(rubric: JudgeCriterion[]): Tool {
+  const properties: Record<string, { type: string; description: string }> = {
+    reasoning: { type: 'string', description: '评分理由，简要说明每一项的依据' }
+  }
+  rubric.forEach((c, i) => {
+    properties[criterionKey(i)] = {
+      type: 'number',
+      description: `「${c.name}」：${c.description}（${MIN_SCORE}-${MAX_SCORE} 分）`
+    }
+  })
+  return {
+    type: 'function',
+    function: {
+      name: 'submit_scores',
+      description: '提交对回答的评分结果',
+      parameters: {
+        type: 'object',
+        properties,
+        required: ['reasoning', ...rubric.map((_, i) => criterionKey(i))]
+      }
+    }
+  }
+}
+
+function buildJudgeMessages(question: string, answer: string, rubric: JudgeCriterion[]): Message[] {
+  const criteria = rubric.map(c => `- ${c.name}：${c.description}`).join('\n')
+  const example = JSON.stringify({
+    scores: Object.fromEntries(rubric.map(c => [c.name, 8])),
+    reasoning: '……'
+  })
+
+  return [
+    {
+      role: 'system',
+      content: `你是一名严格、公正的评审，负责评估 AI 助手对用户问题的回答。\n\n` +
+        `请按以下标准逐项打分（${MIN_SCORE}-${MAX_SCORE} 的整数）：\n${criteria}\n\n` +
+        `如果可以调用 submit_scores 工具，请调用它提交结果；否则只输出一个 JSON 对象，不要输出其他内容，格式如下：\n${example}`
+    },
+    {
+      role: 'user',
+      content: `【用户问题】\n${question}\n\n【待评审的回答】\n${answer}`
+    }
+  ]
+}
+
+// 工具调用参数转换为 { scores, reasoning }，评分按评审标准名称存放（标准名为 reasoning 时也不会冲突）
+function fromToolArguments(args: unknown, rubric: JudgeCriterion[]): unknown {
+  if (!args || typeof args !== 'object') return args
+  const data = args as Record<string, unknown>
+  return {
+    scores: Object.fromEntries(rubric.map((c, i) => [c.name, data[criterionKey(i)]])),
+    reasoning: data.reasoning
+  }
+}
+
+// 从模型输出中提取 JSON 对象（兼容 ```json 代码块和前后多余文字）
+function extractJson(raw: string): unknown {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const text = fenced ? fenced[1]! : raw
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    throw new JudgeFormatError('输出中没有 JSON 对象')
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1))
+  } catch {
+    throw new JudgeFormatError('JSON 解析失败')
+  }
+}
+
+// 解析并校验评审输出，scores 可以嵌套在 scores 字段中，也可以与 reasoning 平铺
+export function parseJudgeOutput(raw: string | object, rubric: JudgeCriterion[]): JudgeOutput {
+  const data = (typeof raw === 'string' ? extractJson(raw) : raw) as Record<string, unknown>
+  if (!data || typeof data !== 'object') {
+    throw new JudgeFormatError('输出不是 JSON 对象')
+  }
+
+  const source = (data.scores && typeof data.scores === 'object' ? data.scores : data) as Record<string, unknown>
+  const scores: Record<string, number> = {}
+  for (const c of rubric) {
+    const value = Number(source[c.name])
+    if (!Number.isFinite(value)) {
+      throw new JudgeFormatError(`缺少「${c.name}」的评分`)
+    }
+    if (value < MIN_SCORE || value > MAX_SCORE) {
+      throw new JudgeFormatError(`「${c.name}」的评分 ${value} 超出 ${MIN_SCORE}-${MAX_SCORE} 范围`)
+    }
+    scores[c.name] = value
+  }
+
+  return {
+    scores,
+    reasoning: typeof data.reasoning === 'string' ? data.reasoning : ''
+  }
+}
+
+// 调用评审模型，输出格式错误时把错误反馈给模型并重试；每次请求的 token 用量通过 onUsage 回调（keyId 为实际处理请求的 Key）
+export async function runJudge(
+  target: ChatTarget,
+  question: string,
+  answer: string,
+  rubric: JudgeCriterion[],
+  onUsage?: (usage: TokenUsage | undefined, keyId?: string) => void,
+  maxRetries = 2
+): Promise<JudgeOutput & { attempts: number }> {
+  const messages = buildJudgeMessages(question, answer, rubric)
+  const useTools = supportsTools(target.protocol)
+  const tool = buildJudgeTool(rubric)
+
+  let lastError: Error | null = null
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    let raw: string | object = ''
+    if (useTools) {
+      const result = await chatWithToolsTarget(target, messages, [tool])
+      onUsage?.(result.usage, result.keyId)
+      const call = result.toolCalls?.find(c => c.function.name === tool.function.name)
+      if (call) {
+        try {
+          raw = fromToolArguments(JSON.parse(call.function.arguments), rubric) as object
+        } catch {
+          raw = call.function.arguments
+        }
+      } else {
+        raw = result.content || ''
+      }
+    } else {
+      const { content, metrics } = await completeChat(target, messages)
+      onUsage?.(metrics?.usage, metrics?.keyId)
+      raw = content
+    }
+
+    try {
+      return { ...parseJudgeOutput(raw, rubric), attempts: attempt }
+    } catch (error) {
+      if (!(error instanceof JudgeFormatError)) throw error
+      lastError = error
+      messages.push(
+        { role: 'assistant', content: typeof raw === 'string' ? raw : JSON.stringify(raw) },
+        { role: 'user', content: `输出格式不正确：${error.message}。请严格按要求只输出 JSON 对象。` }
+      )
+    }
+  }
+  throw lastError || new JudgeFormatError('评审失败')
+}
@@ -0,0 +1,115 @@
+// 面板消息树：编辑或重新生成时保留原来的后续对话作为分支
+import type { Message, MessageNode, MessageTree } from '../types/config'
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 9)
+}
+
+export function createMessageTree(): MessageTree {
+  return { nodes: {}, rootIds: [], activeRootId: null }
+}
+
+// 由线性消息列表创建只有一条分支的树（旧版会话）
+export function messageTreeFromList(messages: Message[]): MessageTree {
+  const tree = createMessageTree()
+  messages.forEach(message => appendMessage(tree, message))
+  return tree
+}
+
+// 当前分支上的节点
+export function activeNodes(tree: MessageTree): MessageNode[] {
+  const path: MessageNode[] = []
+  let node = tree.activeRootId ? tree.nodes[tree.activeRootId] : undefined
+  while (node) {
+    path.push(node)
+    node = node.activeChildId ? tree.nodes[node.activeChildId] : undefined
+  }
+  return path
+}
+
+// 当前分支上的消息，即发送给模型的对话历史
+export function activeMessages(tree: MessageTree): Message[] {
+  return activeNodes(tree).map(node => node.message)
+}
+
+export function lastActiveMessage(tree: MessageTree): Message | undefined {
+  const path = activeNodes(tree)
+  return path[path.length - 1]?.message
+}
+
+// 所有分支上的消息
+export function allMessages(tree: MessageTree): Message[] {
+  return Object.values(tree.nodes).map(node => node.message)
+}
+
+// 在当前分支末尾追加消息，已有子节点时成为新的分支
+export function appendMessage(tree: MessageTree, message: Message): MessageNode {
+  const path = activeNodes(tree)
+  return addChild(tree, path[path.length - 1]?.id ?? null, message)
+}
+
+// 在指定节点下添加子节点（null 表示根节点），activate 为 true 时切换到该分支
+export function addChild(tree: MessageTree, parentId: string | null, message: Message, activate = true): MessageNode {
+  const node: MessageNode = {
+    id: generateId(),
+    parentId,
+    childIds: [],
+    activeChildId: null,
+    message
+  }
+  tree.nodes[node.id] = node
+  const parent = parentId ? tree.nodes[parentId] : undefined
+  if (parent) {
+    parent.childIds.push(node.id)
+    if (activate) parent.activeChildId = node.id
+  } else {
+    tree.rootIds.push(node.id)
+    if (activate) tree.activeRootId = node.id
+  }
+  return node
+}
+
+// 让当前分支在指定节点处结束（null 表示从头开始），之后追加的消息成为新分支，原来的后续对话保留
+export function branchAfter(tree: MessageTree, nodeId: string | null) {
+  const node = nodeId ? tree.nodes[nodeId] : undefined
+  if (node) {
+    node.activeChildId = null
+  } else {
+    tree.activeRootId = null
+  }
+}
+
+// 与节点同级的分支
+export function siblingIds(tree: MessageTree, nodeId: string): string[] {
+  const parentId = tree.nodes[nodeId]?.parentId
+  return parentId ? tree.nodes[parentId]?.childIds ?? [] : tree.rootIds
+}
+
+// 切换到指定分支
+export function selectBranch(tree: MessageTree, nodeId: string) {
+  const node = tree.nodes[nodeId]
+  if (!node) return
+  if (node.parentId) {
+    tree.nodes[node.parentId]!.activeChildId = nodeId
+  } else {
+    tree.activeRootId = nodeId
+  }
+}
+
+// 切换到相邻的同级分支（offset 为 -1 / 1）
+export function switchBranch(tree: MessageTree, nodeId: string, offset: number) {
+  const siblings = siblingIds(tree, nodeId)
+  const target = siblings[siblings.indexOf(nodeId) + offset]
+  if (target) selectBranch(tree, target)
+}
+
+// 从分支起点沿各自的当前分支向下，取这一轮回复最后一条有内容的助手消息
+export function branchReply(tree: MessageTree, nodeId: string): Message | undefined {
+  let reply: Message | undefined
+  let node: MessageNode | undefined = tree.nodes[nodeId]
+  while (node && node.message.role !== 'user') {
+    if (node.message.role === 'assistant' && node.message.content) reply = node.message
+    node = node.activeChildId ? tree.nodes[node.activeChildId] : undefined
+  }
+  return reply
+}
@@ -0,0 +1,501 @@
+// 对比报告：由各面板当前分支生成，导出为独立 HTML、Markdown 或可重新打开的 JSON
+import { Marked } from 'marked'
+import hljs from 'highlight.js/lib/common'
+import hljsTheme from 'highlight.js/styles/github.css?inline'
+import { linkCitations, sourceHost, escapeHtml, safeHref } from './citations'
+import { formatCost } from './cost'
+import { formatContextTrim, CONTEXT_STRATEGIES } from './context'
+import type { Attachment, ContextStrategy, ContextTrim, GenerationParams, JudgeResult, Message, ResponseMetrics, SearchResult, ToolCall } from '../types/config'
+
+export const REPORT_FORMAT = 'llm-compare-report'
+export const REPORT_VERSION = 1
+
+// 报告中的消息：附件只保留名称和类型
+type ReportAttachment = Omit<Attachment, 'data'>
+
+export type ReportMessage = Omit<Message, 'attachments' | 'reasoningSignature'> & {
+  attachments?: ReportAttachment[]
+}
+
+// 竞技场面板投票前导出时不含模型信息
+export interface ReportPanel {
+  label: string
+  provider?: string
+  model?: string
+  protocol?: string
+  params: GenerationParams   // 实际生效的参数（模型默认值 + 面板覆盖）
+  samples?: number
+  systemPrompt?: string
+  tools?: string[]
+  messages: ReportMessage[]  // 当前分支上的对话
+}
+
+export interface ComparisonReport {
+  format: typeof REPORT_FORMAT
+  version: number
+  title: string
+  exportedAt: number
+  panels: ReportPanel[]
+}
+
+// 同一轮对话：各面板用户消息相同时单独列出，其余按面板分列
+export interface ReportTurn {
+  prompt?: ReportMessage
+  cells: ReportMessage[][]
+}
+
+export function toReportMessage(message: Message): ReportMessage {
+  const { attachments, reasoningSignature: _, ...rest } = message
+  return attachments?.length
+    ? { ...rest, attachments: attachments.map(({ type, name, mimeType }) => ({ type, name, mimeType })) }
+    : rest
+}
+
+export function createReport(title: string, panels: ReportPanel[]): ComparisonReport {
+  return { format: REPORT_FORMAT, version: REPORT_VERSION, title, exportedAt: Date.now(), panels }
+}
+
+// 导出文件名，去掉文件系统不允许的字符
+export function reportFilename(report: ComparisonReport, extension: string): string {
+  const name = report.title.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60) || 'report'
+  return `${name}.${extension}`
+}
+
+// ===== 格式化 =====
+
+// 格式化响应指标
+export function formatMetrics(metrics: ResponseMetrics): string {
+  const parts: string[] = []
+  if (metrics.firstTokenMs !== undefined) parts.push(`首字 ${(metrics.firstTokenMs / 1000).toFixed(2)}s`)
+  parts.push(`总计 ${(metrics.durationMs / 1000).toFixed(1)}s`)
+  if (metrics.tokensPerSecond !== undefined) parts.push(`${metrics.tokensPerSecond} tok/s`)
+  if (metrics.usage?.inputTokens !== undefined || metrics.usage?.outputTokens !== undefined) {
+    parts.push(`输入 ${metrics.usage.inputTokens ?? '-'} / 输出 ${metrics.usage.outputTokens ?? '-'} tokens`)
+  }
+  if (metrics.cost !== undefined) parts.push(formatCost(metrics.cost))
+  return parts.join(' · ')
+}
+
+// 生成参数摘要
+export function formatParams(params: GenerationParams, samples?: number): string {
+  const parts: string[] = []
+  if (params.temperature !== undefined) parts.push(`T ${params.temperature}`)
+  if (params.topP !== undefined) parts.push(`top_p ${params.topP}`)
+  if (params.maxTokens !== undefined) parts.push(`max ${params.maxTokens}`)
+  if (params.seed !== undefined) parts.push(`seed ${params.seed}`)
+  if (params.stop?.length) parts.push(`stop ×${params.stop.length}`)
+  if (params.thinkingBudget !== undefined) parts.push(`think ${params.thinkingBudget}`)
+  if (params.reasoningEffort) parts.push(`effort ${params.reasoningEffort}`)
+  if (samples) parts.push(`采样 ×${samples}`)
+  return parts.join(' · ')
+}
+
+// 面板所有回复的耗时、用量和费用合计
+function formatPanelTotals(panel: ReportPanel): string {
+  const metrics = panel.messages.flatMap(m => m.role === 'assistant' && m.metrics ? [m.metrics] : [])
+  if (metrics.length === 0) return '-'
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+  const firstTokens = metrics.flatMap(m => m.firstTokenMs !== undefined ? [m.firstTokenMs] : [])
+  const parts = [`${metrics.length} 次请求`, `总计 ${(sum(metrics.map(m => m.durationMs)) / 1000).toFixed(1)}s`]
+  if (firstTokens.length) parts.push(`平均首字 ${(sum(firstTokens) / firstTokens.length / 1000).toFixed(2)}s`)
+  const input = sum(metrics.map(m => m.usage?.inputTokens ?? 0))
+  const output = sum(metrics.map(m => m.usage?.outputTokens ?? 0))
+  if (input || output) parts.push(`输入 ${input} / 输出 ${output} tokens`)
+  const cost = sum(metrics.map(m => m.cost ?? 0))
+  if (cost > 0) parts.push(formatCost(cost))
+  return parts.join(' · ')
+}
+
+function formatToolCall(call: NonNullable<Message['toolCalls']>[number]): string {
+  return `${call.function.name}(${call.function.arguments})`
+}
+
+// ===== 按轮次对齐 =====
+
+// 每个用户消息开始新的一轮
+function splitTurns(messages: ReportMessage[]): ReportMessage[][] {
+  const turns: ReportMessage[][] = []
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) turns.push([])
+    turns[turns.length - 1]!.push(message)
+  }
+  return turns
+}
+
+function samePrompt(a: ReportMessage | undefined, b: ReportMessage | undefined): boolean {
+  if (a?.role !== 'user' || b?.role !== 'user' || a.content !== b.content) return false
+  const names = (m: ReportMessage) => (m.attachments || []).map(f => f.name).join('\n')
+  return names(a) === names(b)
+}
+
+export function reportTurns(report: ComparisonReport): ReportTurn[] {
+  const perPanel = report.panels.map(p => splitTurns(p.messages))
+  const count = Math.max(0, ...perPanel.map(turns => turns.length))
+  return Array.from({ length: count }, (_, i) => {
+    const cells = perPanel.map(turns => turns[i] ?? [])
+    const first = cells[0]?.[0]
+    const shared = cells.every(cell => samePrompt(cell[0], first))
+    return shared ? { prompt: first, cells: cells.map(cell => cell.slice(1)) } : { cells }
+  })
+}
+
+// ===== Markdown =====
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n')
+}
+
+function tableCell(text: string | undefined): string {
+  return (text || '-').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+}
+
+function messageMarkdown(message: ReportMessage): string {
+  const blocks: string[] = []
+  if (message.role === 'user') {
+    blocks.push('**用户**', message.content)
+    if (message.attachments?.length) blocks.push(`附件：${message.attachments.map(f => f.name).join('、')}`)
+  } else if (message.role === 'tool') {
+    blocks.push(`<details><summary>工具结果：${message.toolName || '工具'}</summary>\n\n\`\`\`\n${message.content}\n\`\`\`\n\n</details>`)
+  } else if (message.role === 'assistant') {
+    if (message.reasoning) blocks.push(`<details><summary>思考过程</summary>\n\n${message.reasoning}\n\n</details>`)
+    if (message.content) blocks.push(message.content)
+    if (message.toolCalls?.length) blocks.push(quote(message.toolCalls.map(c => `🔧 ${formatToolCall(c)}`).join('\n')))
+    if (message.sources?.length) {
+      blocks.push(['来源：', ...message.sources.map((s, i) => {
+        const title = s.title.replace(/[[\]]/g, '')
+        return `${i + 1}. ${safeHref(s.url) ? `[${title}](${s.url})` : title}`
+      })].join('\n'))
+    }
+    if (message.judgement) blocks.push(`*评审 ${message.judgement.total.toFixed(1)}（${message.judgement.judgeModel}）*`)
+    if (message.contextTrim) blocks.push(`*✂️ ${formatContextTrim(message.contextTrim)}*`)
+    if (message.metrics) blocks.push(`*${formatMetrics(message.metrics)}*`)
+  }
+  return blocks.join('\n\n')
+}
+
+export function reportToMarkdown(report: ComparisonReport): string {
+  const lines: string[] = [
+    `# ${report.title}`,
+    `导出于 ${new Date(report.exportedAt).toLocaleString()} · ${report.panels.length} 个面板`,
+    '## 模型',
+    [
+      '| 面板 | 服务商 | 模型 | 协议 | 参数 | 工具 | 耗时与用量 |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+      ...report.panels.map(p => `| ${[
+        p.label, p.provider, p.model, p.protocol, formatParams(p.params, p.samples), p.tools?.join(', '), formatPanelTotals(p)
+      ].map(tableCell).join(' | ')} |`)
+    ].join('\n')
+  ]
+  for (const panel of report.panels) {
+    if (panel.systemPrompt) lines.push(`**${panel.label} 的系统提示词**`, quote(panel.systemPrompt))
+  }
+  reportTurns(report).forEach((turn, index) => {
+    lines.push(`## 第 ${index + 1} 轮`)
+    if (turn.prompt) lines.push(messageMarkdown(turn.prompt))
+    turn.cells.forEach((cell, panelIndex) => {
+      lines.push(`### ${report.panels[panelIndex]!.label}`)
+      lines.push(cell.length ? cell.map(messageMarkdown).join('\n\n') : '*（无）*')
+    })
+  })
+  return lines.join('\n\n') + '\n'
+}
+
+// ===== HTML =====
+
+// 代码块语法高亮；回答中的原始 HTML 按文本显示、只保留 http(s) 链接，避免导出的文件执行其中的脚本
+const reportMarked = new Marked({
+  renderer: {
+    code({ text, lang }) {
+      const language = lang?.match(/^\S+/)?.[0]
+      const highlighted = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language }).value
+        : hljs.highlightAuto(text).value
+      return `<pre><code class="hljs">${highlighted}</code></pre>\n`
+    },
+    html({ text }) {
+      return escapeHtml(text)
+    },
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens)
+      const url = safeHref(href)
+      if (!url) return text
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : ''
+      return `<a href="${escapeHtml(url)}"${titleAttr} target="_blank" rel="noopener noreferrer">${text}</a>`
+    }
+  }
+})
+
+function renderMarkdown(content: string): string {
+  return reportMarked.parse(content, { async: false })
+}
+
+function messageHtml(message: ReportMessage): string {
+  if (message.role === 'user') {
+    const files = message.attachments?.length
+      ? `<div class="attachments">📎 ${message.attachments.map(f => escapeHtml(f.name)).join('、')}</div>`
+      : ''
+    return `<div class="message user"><div class="role">用户</div>${renderMarkdown(message.content)}${files}</div>`
+  }
+  if (message.role === 'tool') {
+    return `<details class="tool-result"><summary>工具结果：${escapeHtml(message.toolName || '工具')}</summary><pre>${escapeHtml(message.content)}</pre></details>`
+  }
+  if (message.role !== 'assistant') return ''
+
+  const parts: string[] = []
+  if (message.reasoning) {
+    parts.push(`<details class="reasoning"><summary>思考过程</summary>${renderMarkdown(message.reasoning)}</details>`)
+  }
+  if (message.content) {
+    const html = renderMarkdown(message.content)
+    parts.push(message.sources ? linkCitations(html, message.sources) : html)
+  }
+  for (const call of message.toolCalls || []) {
+    parts.push(`<div class="tool-call">🔧 ${escapeHtml(formatToolCall(call))}</div>`)
+  }
+  if (message.sources?.length) {
+    parts.push(`<ol class="sources">${message.sources.map(s =>
+      `<li>${safeHref(s.url) ? `<a href="${escapeHtml(s.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(s.title)}</a>` : escapeHtml(s.title)} <span class="muted">${escapeHtml(sourceHost(s))}</span></li>`
+    ).join('')}</ol>`)
+  }
+  if (message.judgement) {
+    parts.push(`<div class="judgement">评审 ${message.judgement.total.toFixed(1)} · ${escapeHtml(message.judgement.judgeModel)}</div>`)
+  }
+  if (message.contextTrim) parts.push(`<div class="metrics">✂️ ${escapeHtml(formatContextTrim(message.contextTrim))}</div>`)
+  if (message.metrics) parts.push(`<div class="metrics">${escapeHtml(formatMetrics(message.metrics))}</div>`)
+  return `<div class="message assistant">${parts.join('')}</div>`
+}
+
+const REPORT_CSS = `
+body { margin: 0; padding: 32px; font: 14px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #1f2328; background: #f6f8fa; }
+h1 { margin: 0 0 4px; font-size: 24px; }
+h2 { margin: 32px 0 12px; font-size: 18px; }
+h3 { margin: 0 0 12px; font-size: 14px; }
+a { color: #0969da; }
+.muted, .meta, .metrics, .judgement { color: #656d76; font-size: 12px; }
+table { width: 100%; border-collapse: collapse; background: #fff; }
+th, td { padding: 8px 10px; border: 1px solid #d0d7de; text-align: left; vertical-align: top; font-size: 13px; }
+th { background: #f6f8fa; font-weight: 600; }
+.system-prompt { margin: 8px 0; }
+.system-prompt pre, .tool-result pre { white-space: pre-wrap; word-break: break-word; }
+.columns { display: grid; gap: 16px; overflow-x: auto; }
+.column { min-width: 0; padding: 16px; background: #fff; border: 1px solid #d0d7de; border-radius: 8px; }
+.message { margin-bottom: 12px; }
+.message.user { padding: 10px 14px; background: #ddf4ff; border-radius: 8px; }
+.role { font-size: 12px; font-weight: 600; color: #0969da; }
+.message p:first-child { margin-top: 0; }
+.message p:last-child { margin-bottom: 0; }
+pre { padding: 12px; overflow-x: auto; background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; }
+pre code.hljs { padding: 0; background: transparent; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 13px; }
+blockquote { margin: 8px 0; padding-left: 12px; border-left: 3px solid #d0d7de; color: #656d76; }
+details { margin: 8px 0; font-size: 13px; }
+summary { cursor: pointer; color: #656d76; }
+.reasoning { padding: 8px 12px; background: #f6f8fa; border-radius: 6px; }
+.tool-call { margin: 6px 0; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 12px; color: #656d76; word-break: break-all; }
+.sources { margin: 8px 0; padding-left: 20px; font-size: 12px; }
+.citation { display: inline-block; margin: 0 1px; padding: 0 5px; font-size: 11px; line-height: 16px; border-radius: 8px; background: #ddf4ff; text-decoration: none; vertical-align: super; }
+.citation.invalid { background: #ffebe9; color: #cf222e; }
+.empty { color: #8c959f; }
+`
+
+export function reportToHtml(report: ComparisonReport): string {
+  const columns = `grid-template-columns: repeat(${report.panels.length}, minmax(320px, 1fr))`
+  const rows = report.panels.map(p => `<tr>${[
+    p.label, p.provider, p.model, p.protocol, formatParams(p.params, p.samples), p.tools?.join(', '), formatPanelTotals(p)
+  ].map(value => `<td>${escapeHtml(value || '-')}</td>`).join('')}</tr>`).join('')
+  const systemPrompts = report.panels
+    .filter(p => p.systemPrompt)
+    .map(p => `<details class="system-prompt"><summary>${escapeHtml(p.label)} 的系统提示词</summary><pre>${escapeHtml(p.systemPrompt!)}</pre></details>`)
+    .join('')
+  const turns = reportTurns(report).map((turn, index) => `
+<h2>第 ${index + 1} 轮</h2>
+${turn.prompt ? messageHtml(turn.prompt) : ''}
+<div class="columns" style="${columns}">${turn.cells.map((cell, panelIndex) => `
+<div class="column"><h3>${escapeHtml(report.panels[panelIndex]!.label)}</h3>${cell.length ? cell.map(messageHtml).join('') : '<div class="empty">（无）</div>'}</div>`).join('')}
+</div>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_CSS}${hljsTheme}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<div class="meta">导出于 ${new Date(report.exportedAt).toLocaleString()} · ${report.panels.length} 个面板</div>
+<h2>模型</h2>
+<table>
+<thead><tr><th>面板</th><th>服务商</th><th>模型</th><th>协议</th><th>参数</th><th>工具</th><th>耗时与用量</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>
+${systemPrompts}
+${turns}
+</body>
+</html>
+`
+}
+
+// ===== 导入 =====
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const MESSAGE_ROLES: Message['role'][] = ['user', 'assistant', 'system', 'tool']
+
+// 导入的报告可能被手动修改过：必需字段不符时视为损坏，可选字段格式不符时丢弃，避免渲染时出错
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return isString(value) ? value : undefined
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return isNumber(value) ? value : undefined
+}
+
+// 数组中格式正确的项，不是数组时为 undefined
+function readList<T>(value: unknown, read: (item: unknown) => T | undefined): T[] | undefined {
+  if (!Array.isArray(value)) return undefined
+  return value.flatMap(item => {
+    const result = read(item)
+    return result === undefined ? [] : [result]
+  })
+}
+
+function readParams(value: Record<string, unknown>): GenerationParams {
+  const effort = value.reasoningEffort
+  return {
+    temperature: optionalNumber(value.temperature),
+    maxTokens: optionalNumber(value.maxTokens),
+    topP: optionalNumber(value.topP),
+    stop: readList(value.stop, optionalString),
+    seed: optionalNumber(value.seed),
+    thinkingBudget: optionalNumber(value.thinkingBudget),
+    reasoningEffort: effort === 'minimal' || effort === 'low' || effort === 'medium' || effort === 'high' ? effort : undefined
+  }
+}
+
+function readSource(value: unknown): SearchResult | undefined {
+  if (!isObject(value) || !isString(value.title) || !isString(value.url)) return undefined
+  return { title: value.title, url: value.url, content: optionalString(value.content) ?? '', score: optionalNumber(value.score) }
+}
+
+function readToolCall(value: unknown): ToolCall | undefined {
+  if (!isObject(value) || !isObject(value.function) || !isString(value.function.name)) return undefined
+  return {
+    id: optionalString(value.id) ?? '',
+    type: 'function',
+    function: { name: value.function.name, arguments: optionalString(value.function.arguments) ?? '' }
+  }
+}
+
+function readAttachment(value: unknown): ReportAttachment | undefined {
+  if (!isObject(value) || (value.type !== 'image' && value.type !== 'pdf') || !isString(value.name)) return undefined
+  return { type: value.type, name: value.name, mimeType: optionalString(value.mimeType) ?? '' }
+}
+
+function readMetrics(value: unknown): ResponseMetrics | undefined {
+  if (!isObject(value) || !isNumber(value.durationMs)) return undefined
+  const usage = isObject(value.usage) ? value.usage : undefined
+  return {
+    firstTokenMs: optionalNumber(value.firstTokenMs),
+    durationMs: value.durationMs,
+    tokensPerSecond: optionalNumber(value.tokensPerSecond),
+    reasoningMs: optionalNumber(value.reasoningMs),
+    usage: usage && {
+      inputTokens: optionalNumber(usage.inputTokens),
+      outputTokens: optionalNumber(usage.outputTokens),
+      reasoningTokens: optionalNumber(usage.reasoningTokens)
+    },
+    cost: optionalNumber(value.cost)
+  }
+}
+
+function readJudgement(value: unknown): JudgeResult | undefined {
+  if (!isObject(value) || !isString(value.judgeModel) || !isNumber(value.total)) return undefined
+  const scores = isObject(value.scores) ? value.scores : {}
+  return {
+    judgeModel: value.judgeModel,
+    scores: Object.fromEntries(Object.entries(scores).filter(([, score]) => isNumber(score))) as Record<string, number>,
+    reasoning: optionalString(value.reasoning) ?? '',
+    total: value.total,
+    attempts: optionalNumber(value.attempts) ?? 1,
+    createdAt: optionalNumber(value.createdAt) ?? 0
+  }
+}
+
+function readContextTrim(value: unknown): ContextTrim | undefined {
+  if (!isObject(value) || !CONTEXT_STRATEGIES.some(s => s.value === value.strategy)) return undefined
+  return {
+    strategy: value.strategy as ContextStrategy,
+    droppedTurns: optionalNumber(value.droppedTurns) ?? 0,
+    summarizedTurns: optionalNumber(value.summarizedTurns) ?? 0,
+    estimatedTokens: optionalNumber(value.estimatedTokens) ?? 0,
+    summaryError: optionalString(value.summaryError)
+  }
+}
+
+function readMessage(value: unknown): ReportMessage | undefined {
+  if (!isObject(value) || !MESSAGE_ROLES.includes(value.role as Message['role']) || !isString(value.content)) return undefined
+  return {
+    role: value.role as Message['role'],
+    content: value.content,
+    attachments: readList(value.attachments, readAttachment),
+    toolCalls: readList(value.toolCalls, readToolCall),
+    toolCallId: optionalString(value.toolCallId),
+    toolName: optionalString(value.toolName),
+    sources: readList(value.sources, readSource),
+    reasoning: optionalString(value.reasoning),
+    metrics: readMetrics(value.metrics),
+    judgement: readJudgement(value.judgement),
+    contextTrim: readContextTrim(value.contextTrim)
+  }
+}
+
+function readPanel(value: unknown): ReportPanel | undefined {
+  if (!isObject(value) || !isString(value.label) || !isObject(value.params) || !Array.isArray(value.messages)) return undefined
+  const messages = readList(value.messages, readMessage)!
+  if (messages.length !== value.messages.length) return undefined
+  return {
+    label: value.label,
+    provider: optionalString(value.provider),
+    model: optionalString(value.model),
+    protocol: optionalString(value.protocol),
+    params: readParams(value.params),
+    samples: optionalNumber(value.samples),
+    systemPrompt: optionalString(value.systemPrompt),
+    tools: readList(value.tools, optionalString),
+    messages
+  }
+}
+
+// 解析导出的 JSON 报告，格式不符时抛出带说明的错误
+export function parseReport(json: string): ComparisonReport {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('文件不是有效的 JSON')
+  }
+  if (!isObject(data) || data.format !== REPORT_FORMAT) {
+    throw new Error('不是导出的对比报告（JSON 格式）')
+  }
+  if (typeof data.version !== 'number' || data.version > REPORT_VERSION) {
+    throw new Error(`报告版本 ${String(data.version)} 高于当前支持的版本 ${REPORT_VERSION}`)
+  }
+  const panels = readList(data.panels, readPanel)
+  if (!isString(data.title) || !isNumber(data.exportedAt) || !panels || panels.length !== (data.panels as unknown[]).length) {
+    throw new Error('报告内容不完整或已损坏')
+  }
+  return { format: REPORT_FORMAT, version: data.version, title: data.title, exportedAt: data.exportedAt, panels }
+}
@@ -0,0 +1,133 @@
+// 请求重试：HTTP 错误分类、指数退避（遵循 Retry-After）和每个 API Key 的并发限制
+
+export const DEFAULT_MAX_RETRIES = 2
+
+// 退避的初始等待和上限
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30000
+
+// 服务商返回的 HTTP 错误
+export class HttpError extends Error {
+  status: number
+  retryAfterMs?: number  // 服务商通过 Retry-After 要求的等待时间
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// Retry-After 可以是秒数或 HTTP 日期
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// 读取错误响应并构造 HttpError（保持 "API Error 状态码: 内容" 的错误信息格式）
+export async function toHttpError(response: Response): Promise<HttpError> {
+  const errorText = await response.text()
+  return new HttpError(
+    response.status,
+    `API Error ${response.status}: ${errorText}`,
+    parseRetryAfter(response.headers.get('retry-after'))
+  )
+}
+
+// 限流、超时和服务端错误可以重试；fetch 本身失败（网络错误）时抛出 TypeError
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500
+  }
+  return error instanceof TypeError
+}
+
+// Key 无效或无权限，重试无意义，但可以换用其他 Key
+export function isKeyError(error: unknown): boolean {
+  return error instanceof HttpError && (error.status === 401 || error.status === 403)
+}
+
+// 第 attempt 次重试前的等待时间（从 0 开始）：指数退避加随机抖动，Retry-After 优先
+export function retryDelay(attempt: number, error: unknown): number {
+  if (error instanceof HttpError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_DELAY_MS)
+  }
+  const delay = BASE_DELAY_MS * 2 ** attempt
+  return Math.min(delay + Math.random() * delay / 2, MAX_DELAY_MS)
+}
+
+function abortError(): Error {
+  return new DOMException('Aborted', 'AbortError')
+}
+
+// 可中止的等待
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// 每个 Key 进行中的请求数和排队的请求
+const slots = new Map<string, { active: number; queue: Array<() => void> }>()
+
+// 获取 Key 的并发名额，返回释放函数；limit 未设置时不限制
+export async function acquireKeySlot(keyId: string, limit: number | undefined, signal?: AbortSignal): Promise<() => void> {
+  if (!limit || limit <= 0) return () => {}
+
+  let slot = slots.get(keyId)
+  if (!slot) {
+    slot = { active: 0, queue: [] }
+    slots.set(keyId, slot)
+  }
+  const state = slot
+
+  if (state.active >= limit) {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        state.queue.splice(state.queue.indexOf(start), 1)
+        reject(abortError())
+      }
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      if (signal?.aborted) {
+        reject(abortError())
+        return
+      }
+      state.queue.push(start)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  } else {
+    state.active++
+  }
+
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    // 名额直接交给下一个排队的请求
+    const next = state.queue.shift()
+    if (next) {
+      next()
+    } else {
+      state.active--
+    }
+  }
+}
@@ -0,0 +1,99 @@
+// 多次采样的统计：两两相似度、长度分布，短答案统计最多的一致答案
+import { stripMarkdown } from './diff'
+
+export const MAX_SAMPLES = 10
+export const SAMPLE_CONCURRENCY = 3
+
+// 所有回答都不超过此长度时统计一致答案
+const SHORT_ANSWER_LENGTH = 100
+
+export interface SampleSummary {
+  count: number
+  similarity: { mean: number; min: number; max: number }  // 两两相似度（0-1）
+  sampleSimilarity: number[]                               // 每个样本与其他样本的平均相似度
+  length: { mean: number; min: number; max: number; stdDev: number }  // 字数
+  consensus?: { answer: string; count: number }            // 出现最多的短答案
+}
+
+// 短答案归一化：去掉格式、首尾标点和大小写差异
+function normalizeAnswer(text: string): string {
+  return text
+    .replace(/[*_`#>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[\p{P}\s]+|[\p{P}\s]+$/gu, '')
+    .toLowerCase()
+}
+
+// 中日韩文字每个字作为一个词，其他按字母数字连续片段分词（忽略标点）
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}]+/gu
+
+// 词频统计，用于计算相似度
+function countTokens(text: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const [token] of stripMarkdown(text).toLowerCase().matchAll(TOKEN_PATTERN)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1)
+  }
+  return counts
+}
+
+// 按词频的 Jaccard 相似度（共同词数 / 合计词数），线性时间，长回答也不会阻塞界面；逐词差异见 DiffDialog
+function similarity(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0
+  let total = 0
+  for (const [token, countA] of a) {
+    const countB = b.get(token) ?? 0
+    shared += Math.min(countA, countB)
+    total += Math.max(countA, countB)
+  }
+  for (const [token, countB] of b) {
+    if (!a.has(token)) total += countB
+  }
+  return total ? shared / total : 1
+}
+
+export function summarizeSamples(texts: string[]): SampleSummary {
+  const count = texts.length
+  const tokens = texts.map(countTokens)
+  const pairs: number[] = []
+  const perSample: number[][] = texts.map(() => [])
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const value = similarity(tokens[i]!, tokens[j]!)
+      pairs.push(value)
+      perSample[i]!.push(value)
+      perSample[j]!.push(value)
+    }
+  }
+  const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0
+
+  const lengths = texts.map(t => t.trim().length)
+  const lengthMean = mean(lengths)
+  const summary: SampleSummary = {
+    count,
+    similarity: {
+      mean: mean(pairs),
+      min: pairs.length ? Math.min(...pairs) : 1,
+      max: pairs.length ? Math.max(...pairs) : 1
+    },
+    sampleSimilarity: perSample.map(values => mean(values)),
+    length: {
+      mean: lengthMean,
+      min: Math.min(...lengths),
+      max: Math.max(...lengths),
+      stdDev: Math.sqrt(mean(lengths.map(l => (l - lengthMean) ** 2)))
+    }
+  }
+
+  if (lengths.every(l => l <= SHORT_ANSWER_LENGTH)) {
+    const counts = new Map<string, { answer: string; count: number }>()
+    for (const text of texts) {
+      const key = normalizeAnswer(text)
+      const entry = counts.get(key) ?? { answer: text.trim(), count: 0 }
+      entry.count++
+      counts.set(key, entry)
+    }
+    summary.consensus = [...counts.values()].sort((a, b) => b.count - a.count)[0]
+  }
+  return summary
+}
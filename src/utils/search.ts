@@ -1,11 +1,7 @@
 // 搜索服务 API
+import type { SearchService, SearchResult } from '../types/config'
 
-export interface SearchResult {
-  title: string
-  url: string
-  content: string
-  score?: number
-}
+export type { SearchResult }
 
 export interface SearchResponse {
   results: SearchResult[]
@@ -143,13 +139,33 @@ export async function searxngSearch(
   }
 }
 
-// 格式化搜索结果为 LLM 可用的上下文
-export function formatSearchResultsForLLM(results: SearchResult[]): string {
+// 使用配置的搜索服务搜索
+export async function searchWithService(service: SearchService, query: string): Promise<SearchResult[]> {
+  let response: SearchResponse
+  if (service.type === 'tavily') {
+    response = await tavilySearch(service.apiKey, query, { maxResults: 5, searchDepth: 'advanced' })
+  } else if (service.type === 'serpapi') {
+    response = await serpApiSearch(service.apiKey, query, { maxResults: 5 })
+  } else if (service.type === 'searxng') {
+    response = await searxngSearch(service.baseUrl || '', query, {
+      maxResults: 5,
+      username: service.username,
+      password: service.apiKey,
+      proxyApiKey: service.proxyApiKey
+    })
+  } else {
+    return []
+  }
+  return response.results
+}
+
+// 格式化搜索结果为 LLM 可用的上下文，numbers 为各结果的引用编号（默认从 1 开始）
+export function formatSearchResultsForLLM(results: SearchResult[], numbers?: number[]): string {
   if (results.length === 0) {
     return '未找到相关搜索结果。'
   }
 
   return results.map((r, i) =>
-    `[${i + 1}] ${r.title}\n来源: ${r.url}\n${r.content}`
+    `[${numbers?.[i] ?? i + 1}] ${r.title}\n来源: ${r.url}\n${r.content}`
   ).join('\n\n')
 }
@@ -0,0 +1,19 @@
+// 提示词模板：{{变量名}} 占位符
+
+const VARIABLE_PATTERN = /\{\{\s*([\w一-龥.-]+)\s*\}\}/g
+
+// 提取模板中的变量名（去重，保持出现顺序）
+export function extractVariables(template: string): string[] {
+  const names: string[] = []
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1]!)) names.push(match[1]!)
+  }
+  return names
+}
+
+// 替换变量，未提供的变量保持原样
+export function renderTemplate(template: string, variables: Record<string, string> = {}): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    variables[name] !== undefined ? variables[name]! : placeholder
+  )
+}
@@ -0,0 +1,34 @@
+// token 估算：不依赖各家分词器的粗略估计，用于判断对话历史是否超出模型上下文
+import type { Message } from '../types/config'
+
+// 中日韩文字约 1 token / 字，其他文本约 4 字符 / token
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu
+const CHARS_PER_TOKEN = 4
+
+// 每条消息的角色和格式开销
+const MESSAGE_OVERHEAD = 4
+
+// 附件按常见尺寸估算（图片约一张 1000px 图，PDF 约数页文字）
+const ATTACHMENT_TOKENS = { image: 1000, pdf: 3000 }
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0
+  return Math.ceil(cjk + (text.length - cjk) / CHARS_PER_TOKEN)
+}
+
+// 消息发送给模型时的 token 数（思考过程不回传，不计入）
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD + estimateTokens(message.content)
+  for (const call of message.toolCalls || []) {
+    tokens += estimateTokens(call.function.name) + estimateTokens(call.function.arguments)
+  }
+  for (const attachment of message.attachments || []) {
+    tokens += ATTACHMENT_TOKENS[attachment.type]
+  }
+  return tokens
+}
+
+export function estimateHistoryTokens(messages: Message[]): number {
+  return messages.reduce((total, m) => total + estimateMessageTokens(m), 0)
+}
@@ -0,0 +1,265 @@
+// 工具注册表：每个工具声明 schema 和浏览器端执行函数，面板按名称启用
+import { evaluateExpression } from './calculator'
+import { searchWithService, formatSearchResultsForLLM } from './search'
+import { renderTemplate, extractVariables } from './template'
+import { addSources } from './citations'
+import type { Tool } from './api'
+import type { AgentTool, ToolHandler } from './agent'
+import type { CustomTool, SearchService, SearchResult } from '../types/config'
+
+// 返回给模型的工具结果最大长度
+const MAX_RESULT_LENGTH = 8000
+
+// 工具执行时依赖的配置
+export interface ToolContext {
+  searchService?: SearchService
+  fetchProxy?: string
+  customTools: CustomTool[]
+  sources?: SearchResult[]  // 本次回复已检索到的来源，web_search 结果追加到其中并连续编号
+}
+
+interface BuiltinTool {
+  label: string
+  tool: Tool
+  createHandler: (context: ToolContext) => ToolHandler
+  unavailableReason?: (context: ToolContext) => string | null
+}
+
+// 工具列表项（用于面板中选择）
+export interface ToolOption {
+  name: string
+  label: string
+  description: string
+  custom: boolean
+  unavailableReason: string | null
+}
+
+function truncate(text: string, maxLength = MAX_RESULT_LENGTH): string {
+  return text.length > maxLength ? text.slice(0, maxLength) + `\n…（已截断，共 ${text.length} 字）` : text
+}
+
+// 搜索工具定义
+export const searchTool: Tool = {
+  type: 'function',
+  function: {
+    name: 'web_search',
+    description: '搜索互联网获取最新信息。当用户询问时事、新闻、最新数据、或你不确定的事实性问题时使用此工具。',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: '搜索关键词，应该简洁精准，提取用户问题的核心关键词'
+        }
+      },
+      required: ['query']
+    }
+  }
+}
+
+const calculatorTool: Tool = {
+  type: 'function',
+  function: {
+    name: 'calculator',
+    description: '计算数学表达式，支持 + - * / % ^、括号、pi、e 以及 sqrt、abs、round、floor、ceil、exp、ln、log、sin、cos、tan、min、max、pow 等函数。需要精确计算时使用。',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: '数学表达式，例如 (3.5 + 2) * sqrt(16)' }
+      },
+      required: ['expression']
+    }
+  }
+}
+
+const fetchUrlTool: Tool = {
+  type: 'function',
+  function: {
+    name: 'fetch_url',
+    description: '获取网页内容并提取正文文本。需要阅读某个链接的具体内容时使用。',
+    parameters: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: '完整的 http / https 地址' }
+      },
+      required: ['url']
+    }
+  }
+}
+
+const currentTimeTool: Tool = {
+  type: 'function',
+  function: {
+    name: 'current_time',
+    description: '获取当前日期和时间。回答与今天、现在、星期几等相关的问题时使用。',
+    parameters: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', description: 'IANA 时区，例如 Asia/Shanghai，默认使用用户本地时区' }
+      }
+    }
+  }
+}
+
+// 代理地址：包含 {url} 时替换为编码后的目标地址，否则直接拼接
+function applyProxy(proxy: string, url: string): string {
+  return proxy.includes('{url}') ? proxy.replace('{url}', encodeURIComponent(url)) : proxy + url
+}
+
+// 从 HTML 中提取标题和正文文本
+function extractText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  doc.querySelectorAll('script, style, noscript, svg, iframe, nav, footer, header, aside, form').forEach(el => el.remove())
+  // 块级元素后补换行，保留段落结构
+  doc.querySelectorAll('p, div, li, tr, br, h1, h2, h3, h4, h5, h6, section, article').forEach(el => {
+    el.append(doc.createTextNode('\n'))
+  })
+  const body = (doc.body?.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+  const title = doc.title.trim()
+  return title ? `# ${title}\n\n${body}` : body
+}
+
+async function readResponse(response: Response): Promise<string> {
+  const text = await response.text()
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${text.slice(0, 200)}`)
+  }
+  return text
+}
+
+const BUILTIN_TOOLS: BuiltinTool[] = [
+  {
+    label: '网络搜索',
+    tool: searchTool,
+    unavailableReason: (context) => context.searchService ? null : '未配置搜索服务',
+    createHandler: (context) => async (args) => {
+      if (!context.searchService) throw new Error('未配置搜索服务')
+      const results = await searchWithService(context.searchService, String(args.query ?? ''))
+      if (results.length === 0) return formatSearchResultsForLLM(results)
+      const numbers = context.sources ? addSources(context.sources, results) : undefined
+      return `${formatSearchResultsForLLM(results, numbers)}\n\n回答中引用以上内容时，请用 [编号] 标注来源。`
+    }
+  },
+  {
+    label: '计算器',
+    tool: calculatorTool,
+    createHandler: () => async (args) => {
+      const expression = String(args.expression ?? '')
+      const result = evaluateExpression(expression)
+      if (!Number.isFinite(result)) throw new Error(`结果不是有限数值：${result}`)
+      return `${expression} = ${result}`
+    }
+  },
+  {
+    label: '网页抓取',
+    tool: fetchUrlTool,
+    createHandler: (context) => async (args, signal) => {
+      const url = String(args.url ?? '')
+      if (!/^https?:\/\//i.test(url)) throw new Error('只支持 http / https 地址')
+      const response = await fetch(context.fetchProxy ? applyProxy(context.fetchProxy, url) : url, { signal })
+      const body = await readResponse(response)
+      const isHtml = (response.headers.get('content-type') || '').includes('html') || /^\s*</.test(body)
+      return truncate(isHtml ? extractText(body) : body)
+    }
+  },
+  {
+    label: '当前时间',
+    tool: currentTimeTool,
+    createHandler: () => async (args) => {
+      const now = new Date()
+      const timezone = args.timezone ? String(args.timezone) : Intl.DateTimeFormat().resolvedOptions().timeZone
+      const local = now.toLocaleString('zh-CN', { timeZone: timezone, dateStyle: 'full', timeStyle: 'long', hour12: false })
+      return JSON.stringify({ timezone, local, iso: now.toISOString() })
+    }
+  }
+]
+
+// 自定义 HTTP 工具：URL 中的 {{参数}} 替换为参数值，其余参数 GET 时作为查询参数、POST 时作为 JSON 请求体
+function createCustomHandler(custom: CustomTool): ToolHandler {
+  return async (args, signal) => {
+    const inUrl = new Set(extractVariables(custom.url))
+    const values: Record<string, string> = {}
+    const rest: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(args)) {
+      const text = typeof value === 'string' ? value : JSON.stringify(value)
+      if (inUrl.has(key)) {
+        values[key] = encodeURIComponent(text)
+      } else {
+        rest[key] = value
+      }
+    }
+
+    const url = new URL(renderTemplate(custom.url, values))
+    const headers: Record<string, string> = { ...custom.headers }
+    const init: RequestInit = { method: custom.method, headers, signal }
+    if (custom.method === 'GET') {
+      for (const [key, value] of Object.entries(rest)) {
+        url.searchParams.set(key, typeof value === 'string' ? value : JSON.stringify(value))
+      }
+    } else {
+      headers['Content-Type'] ??= 'application/json'
+      init.body = JSON.stringify(rest)
+    }
+
+    return truncate(await readResponse(await fetch(url, init)))
+  }
+}
+
+function toCustomTool(custom: CustomTool): Tool {
+  return {
+    type: 'function',
+    function: {
+      name: custom.name,
+      description: custom.description,
+      parameters: custom.parameters
+    }
+  }
+}
+
+// 所有可选工具（内置 + 自定义）
+export function listTools(context: ToolContext): ToolOption[] {
+  return [
+    ...BUILTIN_TOOLS.map(t => ({
+      name: t.tool.function.name,
+      label: t.label,
+      description: t.tool.function.description,
+      custom: false,
+      unavailableReason: t.unavailableReason?.(context) ?? null
+    })),
+    ...context.customTools.map(t => ({
+      name: t.name,
+      label: t.name,
+      description: t.description,
+      custom: true,
+      unavailableReason: null
+    }))
+  ]
+}
+
+// 按名称构建面板启用的工具，忽略不存在或不可用的工具
+export function buildAgentTools(names: string[], context: ToolContext): AgentTool[] {
+  const tools: AgentTool[] = []
+  for (const name of names) {
+    const builtin = BUILTIN_TOOLS.find(t => t.tool.function.name === name)
+    if (builtin) {
+      if (!builtin.unavailableReason?.(context)) {
+        tools.push({ tool: builtin.tool, handler: builtin.createHandler(context) })
+      }
+      continue
+    }
+    const custom = context.customTools.find(t => t.name === name)
+    if (custom) {
+      tools.push({ tool: toCustomTool(custom), handler: createCustomHandler(custom) })
+    }
+  }
+  return tools
+}
+
+// 内置工具名称（自定义工具不能与之重名）
+export function isBuiltinToolName(name: string): boolean {
+  return BUILTIN_TOOLS.some(t => t.tool.function.name === name)
+}
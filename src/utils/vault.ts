@@ -0,0 +1,124 @@
+// 配置加密：主密码经 PBKDF2 派生 AES-GCM 密钥，API Key 等敏感字段单独加密保存
+import type { AppConfig, EncryptedPayload, SearchService } from '../types/config'
+
+const PBKDF2_ITERATIONS = 310000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+// 主密码派生的密钥及其参数（加密时写入密文，解密时按相同参数派生）
+export interface VaultKey {
+  key: CryptoKey
+  salt: string
+  iterations: number
+}
+
+// 配置中的敏感字段，按 ID 对应
+export interface ConfigSecrets {
+  apiKeys: Record<string, string>
+  searchServices: Record<string, Pick<SearchService, 'apiKey' | 'proxyApiKey'>>
+  toolHeaders: Record<string, Record<string, string>>  // 自定义工具的请求头（可能包含认证信息）
+}
+
+type SecretHolder = Pick<AppConfig, 'providers' | 'searchServices' | 'customTools'>
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0))
+}
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<VaultKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+  return { key, salt, iterations }
+}
+
+// 设置新密码：生成新的盐
+export function createVaultKey(passphrase: string): Promise<VaultKey> {
+  return deriveKey(passphrase, toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))), PBKDF2_ITERATIONS)
+}
+
+// 按密文中的参数派生密钥（用于解锁和导入）
+export function openVaultKey(passphrase: string, payload: EncryptedPayload): Promise<VaultKey> {
+  return deriveKey(passphrase, payload.salt, payload.iterations)
+}
+
+export async function encryptJson(value: unknown, vaultKey: VaultKey): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    vaultKey.key,
+    new TextEncoder().encode(JSON.stringify(value))
+  )
+  return {
+    version: 1,
+    iterations: vaultKey.iterations,
+    salt: vaultKey.salt,
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data))
+  }
+}
+
+// 密码错误时 AES-GCM 校验失败
+export async function decryptJson<T>(payload: EncryptedPayload, vaultKey: VaultKey): Promise<T> {
+  let data: ArrayBuffer
+  try {
+    data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, vaultKey.key, fromBase64(payload.data))
+  } catch {
+    throw new Error('主密码错误')
+  }
+  return JSON.parse(new TextDecoder().decode(data))
+}
+
+// 拆出敏感字段：返回去掉敏感字段的配置副本和敏感字段
+export function stripSecrets<T extends SecretHolder>(config: T): { config: T; secrets: ConfigSecrets } {
+  const stripped: T = JSON.parse(JSON.stringify(config))
+  const secrets: ConfigSecrets = { apiKeys: {}, searchServices: {}, toolHeaders: {} }
+  for (const provider of stripped.providers) {
+    for (const apiKey of provider.apiKeys) {
+      secrets.apiKeys[apiKey.id] = apiKey.key
+      apiKey.key = ''
+    }
+  }
+  for (const service of stripped.searchServices) {
+    secrets.searchServices[service.id] = { apiKey: service.apiKey, proxyApiKey: service.proxyApiKey }
+    service.apiKey = ''
+    delete service.proxyApiKey
+  }
+  for (const tool of stripped.customTools || []) {
+    if (!tool.headers) continue
+    secrets.toolHeaders[tool.id] = tool.headers
+    // 保留请求头名称，便于知道需要填写哪些值
+    tool.headers = Object.fromEntries(Object.keys(tool.headers).map(name => [name, '']))
+  }
+  return { config: stripped, secrets }
+}
+
+// 将敏感字段写回配置（原地修改）；secrets 为空时清空敏感字段
+export function applySecrets(config: SecretHolder, secrets: ConfigSecrets | null) {
+  for (const provider of config.providers) {
+    for (const apiKey of provider.apiKeys) {
+      apiKey.key = secrets?.apiKeys[apiKey.id] ?? ''
+    }
+  }
+  for (const service of config.searchServices) {
+    const secret = secrets?.searchServices[service.id]
+    service.apiKey = secret?.apiKey ?? ''
+    service.proxyApiKey = secret?.proxyApiKey
+  }
+  for (const tool of config.customTools || []) {
+    if (!tool.headers) continue
+    tool.headers = secrets?.toolHeaders[tool.id]
+      ?? Object.fromEntries(Object.keys(tool.headers).map(name => [name, '']))
+  }
+}